@@ -0,0 +1,203 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { OptionTabs } from "@/components/simulator/OptionTabs";
+import {
+  B2B_FOURIER_SEASONALITY,
+  B2B_MONTHLY_SEASONALITY,
+  MONTH_LABELS,
+  WEEKS_PER_YEAR,
+  monthOfWeek,
+  weekOfYear,
+  type CalendarEvent,
+  type FourierTerm,
+  type MarketingCalendar,
+  type SeasonalityMode,
+} from "@/engine";
+
+interface CalendarPanelProps {
+  calendar: MarketingCalendar;
+  onChange: (update: (prev: MarketingCalendar) => MarketingCalendar) => void;
+}
+
+const formatChange = (v: number) => `${v >= 0 ? "+" : ""}${Math.round(v * 100)}%`;
+
+/** Number for the next added promo: one past the highest so far, so ids stay unique after removals. */
+const nextPromoNumber = (events: CalendarEvent[]) =>
+  events.reduce((max, event) => Math.max(max, Number(/^promo-(\d+)$/.exec(event.id)?.[1] ?? 0)), 0) + 1;
+
+export const CalendarPanel = ({ calendar, onChange }: CalendarPanelProps) => {
+  const changeSeasonality = (mode: SeasonalityMode) => {
+    onChange((prev) => ({
+      ...prev,
+      seasonality: {
+        mode,
+        monthly: prev.seasonality.monthly ?? [...B2B_MONTHLY_SEASONALITY],
+        fourier: prev.seasonality.fourier ?? B2B_FOURIER_SEASONALITY.map((term) => ({ ...term })),
+      },
+    }));
+  };
+
+  const updateMonthlySeasonality = (month: number, value: number) => {
+    onChange((prev) => {
+      const monthly = [...(prev.seasonality.monthly ?? B2B_MONTHLY_SEASONALITY)];
+      monthly[month] = value;
+      return { ...prev, seasonality: { ...prev.seasonality, monthly } };
+    });
+  };
+
+  const updateFourierTerm = (idx: number, patch: Partial<FourierTerm>) => {
+    onChange((prev) => ({
+      ...prev,
+      seasonality: {
+        ...prev.seasonality,
+        fourier: (prev.seasonality.fourier ?? []).map((term, i) => (i === idx ? { ...term, ...patch } : term)),
+      },
+    }));
+  };
+
+  const updateEvent = (id: string, patch: Partial<CalendarEvent>) => {
+    onChange((prev) => ({ ...prev, events: prev.events.map((e) => (e.id === id ? { ...e, ...patch } : e)) }));
+  };
+
+  const removeEvent = (id: string) => {
+    onChange((prev) => ({ ...prev, events: prev.events.filter((e) => e.id !== id) }));
+  };
+
+  // New promos land a few weeks into the series so they show up on the charts straight away.
+  const addPromo = () => {
+    onChange((prev) => {
+      const number = nextPromoNumber(prev.events);
+      return {
+        ...prev,
+        events: [
+          ...prev.events,
+          {
+            id: `promo-${number}`,
+            name: `Promo ${number}`,
+            kind: "promo",
+            startWeek: weekOfYear(prev, 3),
+            weeks: 2,
+            demandChange: 0.05,
+            responseChange: 0.2,
+          },
+        ],
+      };
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <OptionTabs
+          label="Seasonality"
+          value={calendar.seasonality.mode}
+          onChange={changeSeasonality}
+          options={[
+            { value: "none", label: "Flat" },
+            { value: "monthly", label: "Monthly" },
+            { value: "fourier", label: "Fourier" },
+          ]}
+        />
+        <InputSlider
+          label="Series starts in"
+          value={calendar.startWeek}
+          min={1}
+          max={WEEKS_PER_YEAR}
+          step={1}
+          format={(v) => `W${v} (${MONTH_LABELS[monthOfWeek(v)]})`}
+          onChange={(value) => onChange((prev) => ({ ...prev, startWeek: value }))}
+        />
+      </div>
+
+      {calendar.seasonality.mode === "monthly" && (
+        <div className="grid grid-cols-4 gap-2 md:grid-cols-6">
+          {MONTH_LABELS.map((month, idx) => (
+            <label key={month} className="space-y-1 text-[11px] text-muted-foreground">
+              <span>{month}</span>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={calendar.seasonality.monthly?.[idx] ?? 1}
+                onChange={(e) => updateMonthlySeasonality(idx, Math.max(0, Number(e.target.value) || 0))}
+                className="h-8 font-mono text-xs"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {calendar.seasonality.mode === "fourier" &&
+        (calendar.seasonality.fourier ?? []).map((term, idx) => (
+          <div key={term.harmonic} className="grid gap-2 md:grid-cols-2">
+            <InputSlider
+              label={term.harmonic === 1 ? "Yearly cycle" : `${term.harmonic} cycles a year`}
+              value={term.amplitude}
+              min={0}
+              max={0.3}
+              step={0.01}
+              format={(v) => `±${Math.round(v * 100)}%`}
+              onChange={(value) => updateFourierTerm(idx, { amplitude: value })}
+            />
+            <InputSlider
+              label="Peak week"
+              value={term.peakWeek}
+              min={1}
+              max={WEEKS_PER_YEAR}
+              step={1}
+              format={(v) => `W${v}`}
+              onChange={(value) => updateFourierTerm(idx, { peakWeek: value })}
+            />
+          </div>
+        ))}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-medium text-muted-foreground">Holidays, events & promos</p>
+          <Button size="sm" variant="outline" className="h-7 text-[11px]" onClick={addPromo}>
+            Add promo
+          </Button>
+        </div>
+        {calendar.events.map((event) => (
+          <div key={event.id} className="grid gap-2 md:grid-cols-3">
+            <InputSlider
+              label={`${event.name} (${event.kind})`}
+              value={event.startWeek}
+              min={1}
+              max={WEEKS_PER_YEAR}
+              step={1}
+              format={(v) => `W${v}`}
+              onChange={(value) => updateEvent(event.id, { startWeek: value })}
+              onRemove={() => removeEvent(event.id)}
+            />
+            <InputSlider
+              label="Demand"
+              value={event.demandChange}
+              min={-0.5}
+              max={0.5}
+              step={0.05}
+              format={formatChange}
+              onChange={(value) => updateEvent(event.id, { demandChange: value })}
+            />
+            <InputSlider
+              label="Media response"
+              value={event.responseChange ?? 0}
+              min={-0.5}
+              max={0.5}
+              step={0.05}
+              format={formatChange}
+              onChange={(value) => updateEvent(event.id, { responseChange: value })}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-[11px] text-muted-foreground leading-snug">
+        Seasonality and events scale baseline demand week by week, and paid media converts in proportion to it; an
+        event&apos;s media response change comes on top, so a promo can lift conversions per dollar more than demand.
+        The MMM&apos;s two-year history follows the same calendar and the model is given it as known controls. Monthly
+        reporting stays at an average week.
+      </p>
+    </div>
+  );
+};
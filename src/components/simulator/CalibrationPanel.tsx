@@ -0,0 +1,65 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ChannelDefinition, ChannelOutput, LiftTestResult } from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+interface CalibrationPanelProps {
+  outputs: ChannelOutput[];
+  tests: LiftTestResult[];
+  channels: ChannelDefinition[];
+}
+
+const formatTest = ({ metric, estimate, low, high }: LiftTestResult) => {
+  const format = (value: number) => (metric === "iroas" ? value.toFixed(1) : numberFormatter.format(value));
+  return `${format(estimate)} ${metric === "iroas" ? "iROAS" : "conv."} (${format(low)}–${format(high)})`;
+};
+
+export const CalibrationPanel = ({ outputs, tests, channels }: CalibrationPanelProps) => (
+  <div className="space-y-2">
+    <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
+      Calibrated vs. uncalibrated incremental conversions
+    </p>
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[22%]">Channel</TableHead>
+          <TableHead>Lift test</TableHead>
+          <TableHead className="text-right">Uncalibrated</TableHead>
+          <TableHead className="text-right">Calibrated</TableHead>
+          <TableHead className="text-right">Change</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {outputs.map((o) => {
+          const test = tests.find((t) => t.channel === o.channel);
+          const before = o.uncalibratedIncrementalConversions;
+          const change = before === undefined || before <= 0 ? null : o.incrementalConversions / before - 1;
+          return (
+            <TableRow key={o.channel}>
+              <TableCell className="font-medium">
+                <span className="inline-flex items-center gap-2">
+                  <span
+                    className="h-2 w-2 rounded-full"
+                    style={{ backgroundColor: channels.find((ch) => ch.name === o.channel)?.color }}
+                  />
+                  {o.channel}
+                </span>
+              </TableCell>
+              <TableCell className="text-muted-foreground">{test ? formatTest(test) : "—"}</TableCell>
+              <TableCell className="text-right">
+                {before === undefined ? "…" : numberFormatter.format(before)}
+              </TableCell>
+              <TableCell className="text-right">{numberFormatter.format(o.incrementalConversions)}</TableCell>
+              <TableCell className="text-right">
+                {change === null ? "—" : `${change >= 0 ? "+" : ""}${percentFormatter.format(change)}`}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+    <p className="text-[11px] text-muted-foreground">
+      Channels without a test can still move under Bayesian MMM, since the tested channels&apos; priors change how the
+      model splits total conversions.
+    </p>
+  </div>
+);
@@ -0,0 +1,123 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ChannelDefinition, ContributionBreakdown, ContributionRow, ContributionSource } from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+const SOURCE_LABELS: Record<Exclude<ContributionSource, "paid">, string> = {
+  organic: "Organic & direct",
+  branded_search: "Branded search (would convert anyway)",
+  harvested: "Existing demand reached by ads",
+};
+
+const SOURCE_COLORS: Record<Exclude<ContributionSource, "paid">, string> = {
+  organic: "hsl(var(--muted-foreground))",
+  branded_search: "hsl(var(--accent))",
+  harvested: "hsl(var(--muted))",
+};
+
+interface ContributionPanelProps {
+  breakdown: ContributionBreakdown;
+  channels: ChannelDefinition[];
+}
+
+const rowKey = (row: ContributionRow) => row.channel ?? row.source;
+const rowLabel = (row: ContributionRow) =>
+  row.source === "paid" ? `${row.channel} (incremental)` : SOURCE_LABELS[row.source];
+
+export const ContributionPanel = ({ breakdown, channels }: ContributionPanelProps) => {
+  const { rows, totalConversions } = breakdown;
+  const chartData = [
+    { name: "Actual", ...Object.fromEntries(rows.map((row) => [rowKey(row), row.trueConversions])) },
+    { name: "Model credit", ...Object.fromEntries(rows.map((row) => [rowKey(row), row.creditedConversions])) },
+  ];
+  const branded = rows.find((row) => row.source === "branded_search");
+  const brandedMiscredited = branded ? branded.trueConversions - branded.creditedConversions : 0;
+  const baselineShare =
+    rows.filter((row) => row.source !== "paid").reduce((sum, row) => sum + row.trueConversions, 0) /
+    Math.max(totalConversions, 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" barSize={28}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" horizontal={false} />
+            <XAxis type="number" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={90}
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+            />
+            <RechartsTooltip
+              contentStyle={{ fontSize: 11 }}
+              formatter={(value: number, name: string) => [`${numberFormatter.format(value)} conv.`, name]}
+            />
+            <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+            {rows.map((row) => (
+              <Bar
+                key={rowKey(row)}
+                dataKey={rowKey(row)}
+                name={rowLabel(row)}
+                stackId="conversions"
+                fill={
+                  row.source === "paid"
+                    ? (channels.find((ch) => ch.name === row.channel)?.color ?? "hsl(var(--primary))")
+                    : SOURCE_COLORS[row.source]
+                }
+                fillOpacity={row.source === "paid" ? 1 : 0.45}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[40%]">Source</TableHead>
+            <TableHead className="text-right">Actual</TableHead>
+            <TableHead className="text-right">Model credit</TableHead>
+            <TableHead className="text-right">Over / under</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => {
+            const gap = row.creditedConversions - row.trueConversions;
+            return (
+              <TableRow key={rowKey(row)}>
+                <TableCell className="font-medium">{rowLabel(row)}</TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.trueConversions)}</TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.creditedConversions)}</TableCell>
+                <TableCell className={`text-right ${gap > 0 && row.source === "paid" ? "text-destructive" : ""}`}>
+                  {`${gap > 0 ? "+" : ""}${numberFormatter.format(gap)}`}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <p className="text-[11px] text-muted-foreground">
+        {percentFormatter.format(baselineShare)} of the {numberFormatter.format(totalConversions)} monthly conversions
+        would happen without any paid media.{" "}
+        {brandedMiscredited > 0
+          ? `This model credits ${numberFormatter.format(brandedMiscredited)} branded searches to paid search even ` +
+            "though those buyers were already looking for the brand. "
+          : "This model leaves branded searches in the baseline, because they do not move with spend. "}
+        Conversions the model credits to a paid channel beyond its incremental effect come out of existing demand.
+      </p>
+    </div>
+  );
+};
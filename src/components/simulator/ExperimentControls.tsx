@@ -0,0 +1,80 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { OptionTabs } from "@/components/simulator/OptionTabs";
+import {
+  GEO_REGIONS,
+  MAX_TEST_WEEKS,
+  MIN_TEST_WEEKS,
+  type Channel,
+  type ChannelDefinition,
+  type GeoExperiment,
+  type LiftMethod,
+} from "@/engine";
+
+interface ExperimentControlsProps {
+  experiment: GeoExperiment;
+  channels: ChannelDefinition[];
+  onChange: (update: (prev: GeoExperiment) => GeoExperiment) => void;
+}
+
+export const ExperimentControls = ({ experiment, channels, onChange }: ExperimentControlsProps) => {
+  const updateExperiment = (patch: Partial<GeoExperiment>) => {
+    onChange((prev) => ({ ...prev, ...patch }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-muted-foreground">Channel held out</p>
+        <Select value={experiment.channel} onValueChange={(value) => updateExperiment({ channel: value as Channel })}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue placeholder="Select channel" />
+          </SelectTrigger>
+          <SelectContent className="text-xs">
+            {channels.map((ch) => (
+              <SelectItem key={ch.name} value={ch.name}>
+                {ch.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <OptionTabs
+        label="Analysis"
+        value={experiment.method ?? "synthetic_control"}
+        onChange={(value) => updateExperiment({ method: value as LiftMethod })}
+        options={[
+          { value: "synthetic_control", label: "Synthetic control" },
+          { value: "diff_in_diff", label: "Diff-in-diff" },
+        ]}
+      />
+      <InputSlider
+        label="Treated regions"
+        value={experiment.treatedRegions ?? 5}
+        min={1}
+        max={Math.floor(GEO_REGIONS / 3)}
+        step={1}
+        format={(v) => `${v} of ${GEO_REGIONS}`}
+        onChange={(value) => updateExperiment({ treatedRegions: value })}
+      />
+      <InputSlider
+        label="Pre-period"
+        value={experiment.preWeeks ?? 12}
+        min={4}
+        max={26}
+        step={1}
+        format={(v) => `${v} weeks`}
+        onChange={(value) => updateExperiment({ preWeeks: value })}
+      />
+      <InputSlider
+        label="Test length"
+        value={experiment.testWeeks ?? 6}
+        min={MIN_TEST_WEEKS}
+        max={MAX_TEST_WEEKS}
+        step={1}
+        format={(v) => `${v} weeks`}
+        onChange={(value) => updateExperiment({ testWeeks: value })}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { OptionTabs } from "@/components/simulator/OptionTabs";
+import {
+  DEFAULT_STAGE_RATES,
+  FUNNEL_STAGES,
+  STAGE_LABELS,
+  type Channel,
+  type ChannelDefinition,
+  type FunnelModel,
+  type FunnelStage,
+  type StageLag,
+  type StageRates,
+} from "@/engine";
+import { percentFormatter } from "@/lib/format";
+
+interface FunnelControlsProps {
+  funnel: FunnelModel;
+  channels: ChannelDefinition[];
+  onChange: (update: (prev: FunnelModel) => FunnelModel) => void;
+}
+
+/** Stages after the lead, each with a rate and a lag from the stage before it. */
+const RATE_STAGES = FUNNEL_STAGES.slice(1) as (keyof StageRates)[];
+
+export const FunnelControls = ({ funnel, channels, onChange }: FunnelControlsProps) => {
+  const updateStageRate = (name: Channel, stage: keyof StageRates, value: number) => {
+    onChange((prev) => ({
+      ...prev,
+      rates: { ...prev.rates, [name]: { ...(prev.rates[name] ?? DEFAULT_STAGE_RATES), [stage]: value } },
+    }));
+  };
+
+  const updateStageLag = (stage: keyof StageRates, patch: Partial<StageLag>) => {
+    onChange((prev) => ({ ...prev, lags: { ...prev.lags, [stage]: { ...prev.lags[stage], ...patch } } }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <OptionTabs
+        label="Count a conversion at"
+        value={funnel.conversionStage}
+        onChange={(value) => onChange((prev) => ({ ...prev, conversionStage: value as FunnelStage }))}
+        options={FUNNEL_STAGES.map((stage) => ({ value: stage, label: STAGE_LABELS[stage] }))}
+      />
+      {channels.map((ch) => {
+        const rates = funnel.rates[ch.name] ?? DEFAULT_STAGE_RATES;
+        return (
+          <div key={ch.name} className="space-y-2 rounded-lg border bg-background/80 p-3">
+            <p className="text-xs font-medium">{ch.label}</p>
+            <div className="grid gap-2 md:grid-cols-2">
+              {RATE_STAGES.map((stage, idx) => (
+                <InputSlider
+                  key={stage}
+                  label={`${STAGE_LABELS[FUNNEL_STAGES[idx]]} → ${STAGE_LABELS[stage]}`}
+                  value={rates[stage]}
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  format={(v) => percentFormatter.format(v)}
+                  onChange={(value) => updateStageRate(ch.name, stage, value)}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <div className="grid gap-2 md:grid-cols-2">
+        {RATE_STAGES.map((stage, idx) => (
+          <InputSlider
+            key={stage}
+            label={`Days from ${STAGE_LABELS[FUNNEL_STAGES[idx]]} to ${STAGE_LABELS[stage]} (median)`}
+            value={funnel.lags[stage].medianDays}
+            min={0}
+            max={120}
+            step={1}
+            format={(v) => `${v} d`}
+            onChange={(value) => updateStageLag(stage, { medianDays: value })}
+          />
+        ))}
+      </div>
+      <p className="text-[11px] text-muted-foreground leading-snug">
+        Channel efficiencies set closed-won deals; each channel&apos;s stage rates work back to how many leads, MQLs,
+        SQLs and opportunities it takes to get them. Attribution, ROAS and CAC report on the selected stage, and revenue
+        per conversion is the deal value times the chance of closing from there, so ROAS holds while CAC turns into cost
+        per lead, MQL and so on.
+      </p>
+    </div>
+  );
+};
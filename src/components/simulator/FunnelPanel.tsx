@@ -0,0 +1,80 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { STAGE_LABELS, type ChannelDefinition, type FunnelReport } from "@/engine";
+import { currencyFormatter, numberFormatter, percentFormatter } from "@/lib/format";
+
+/** Narrowest bar drawn, as a share of the lead bar, so late stages stay visible. */
+const MIN_BAR_WIDTH = 0.02;
+
+interface FunnelPanelProps {
+  report: FunnelReport;
+  channels: ChannelDefinition[];
+}
+
+export const FunnelPanel = ({ report, channels }: FunnelPanelProps) => (
+  <div className="space-y-4">
+    <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+      {report.channels.map((row) => {
+        const definition = channels.find((ch) => ch.name === row.channel);
+        const leads = Math.max(row.stages[0]?.conversions ?? 0, 1e-9);
+        return (
+          <div key={row.channel} className="space-y-2 rounded-lg border bg-background/80 p-3">
+            <p className="text-xs font-medium">{definition?.label ?? row.channel}</p>
+            {row.stages.map((point) => {
+              const reported = point.stage === report.conversionStage;
+              return (
+                <div
+                  key={point.stage}
+                  className={`grid grid-cols-[84px_1fr_auto] items-center gap-2 text-[11px] ${
+                    reported ? "font-semibold text-foreground" : "text-muted-foreground"
+                  }`}
+                >
+                  <span>{STAGE_LABELS[point.stage]}</span>
+                  <div className="flex justify-center">
+                    <div
+                      className="h-3 rounded-sm"
+                      style={{
+                        width: `${Math.max(point.conversions / leads, MIN_BAR_WIDTH) * 100}%`,
+                        backgroundColor: definition?.color ?? "hsl(var(--primary))",
+                        opacity: reported ? 1 : 0.5,
+                      }}
+                    />
+                  </div>
+                  <span className="text-right">
+                    {`${numberFormatter.format(point.conversions)} · ${currencyFormatter.format(point.costPer)}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[28%]">Stage</TableHead>
+          <TableHead className="text-right">Median days from lead</TableHead>
+          <TableHead className="text-right">p90 days</TableHead>
+          <TableHead className="text-right">Reached within 30 days</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.timings.map((timing) => (
+          <TableRow key={timing.stage}>
+            <TableCell className="font-medium">{STAGE_LABELS[timing.stage]}</TableCell>
+            <TableCell className="text-right">{numberFormatter.format(timing.medianDays)}</TableCell>
+            <TableCell className="text-right">{numberFormatter.format(timing.p90Days)}</TableCell>
+            <TableCell className="text-right">{percentFormatter.format(timing.withinMonth)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+
+    <p className="text-[11px] text-muted-foreground">
+      Each row shows monthly volume and cost per conversion at that stage; the highlighted stage is the one attribution
+      reports on. Channels with cheap leads can have the most expensive deals, so the ranking depends on the stage you
+      judge them by. Deals that close months after the lead also land outside most reporting periods.
+    </p>
+  </div>
+);
@@ -0,0 +1,152 @@
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import type { GeoLiftResult } from "@/engine";
+import { currencyFormatter, numberFormatter, percentFormatter } from "@/lib/format";
+
+const METHOD_LABELS: Record<GeoLiftResult["method"], string> = {
+  synthetic_control: "Synthetic control",
+  diff_in_diff: "Difference-in-differences",
+};
+
+interface GeoLiftPanelProps {
+  result: GeoLiftResult;
+  color: string;
+  /** Revenue per conversion on the tested channel, for iROAS. */
+  revenuePerConversion: number;
+  /** Feeds the readout into the model as a lift-test result. */
+  onCalibrate?: () => void;
+}
+
+export const GeoLiftPanel = ({ result, color, revenuePerConversion, onCalibrate }: GeoLiftPanelProps) => {
+  const { lift, relativeLift, series, preWeeks } = result;
+  const detected = lift.p10 > 0;
+  const iroas = (value: number) => (value * revenuePerConversion) / Math.max(result.spendWithheld, 1);
+  const treated = result.regions.filter((region) => region.treated);
+  const donors = result.regions
+    .filter((region) => region.weight >= 0.05)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 5);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 text-xs sm:grid-cols-3">
+        <div className="rounded-lg border bg-background/80 p-3">
+          <p className="font-medium text-muted-foreground">Estimated lift</p>
+          <p className="mt-1 text-lg font-semibold text-foreground">{numberFormatter.format(lift.p50)} conv.</p>
+          <p className="text-[11px] text-muted-foreground">
+            p10–p90 {numberFormatter.format(lift.p10)} to {numberFormatter.format(lift.p90)} (
+            {percentFormatter.format(relativeLift.p50)} of counterfactual)
+          </p>
+        </div>
+        <div className="rounded-lg border bg-background/80 p-3">
+          <p className="font-medium text-muted-foreground">Incremental ROAS</p>
+          <p className="mt-1 text-lg font-semibold text-foreground">{numberFormatter.format(iroas(lift.p50))}</p>
+          <p className="text-[11px] text-muted-foreground">
+            p10–p90 {numberFormatter.format(iroas(lift.p10))} to {numberFormatter.format(iroas(lift.p90))} on{" "}
+            {currencyFormatter.format(result.spendWithheld)} withheld
+          </p>
+        </div>
+        <div className="rounded-lg border bg-background/80 p-3">
+          <p className="font-medium text-muted-foreground">True lift (simulator)</p>
+          <p className="mt-1 text-lg font-semibold text-foreground">{numberFormatter.format(result.trueLift)} conv.</p>
+          <p className="text-[11px] text-muted-foreground">
+            {result.trueLift >= lift.p10 && result.trueLift <= lift.p90
+              ? "Inside the estimated interval."
+              : "Outside the estimated interval."}
+          </p>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={series}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+            <XAxis dataKey="week" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+            <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+            <RechartsTooltip
+              contentStyle={{ fontSize: 11 }}
+              formatter={(value: number | [number, number], name: string) =>
+                Array.isArray(value)
+                  ? [`${numberFormatter.format(value[0])}–${numberFormatter.format(value[1])}`, name]
+                  : [numberFormatter.format(value), name]
+              }
+            />
+            <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+            <ReferenceArea
+              x1={`W${preWeeks + 1}`}
+              x2={series[series.length - 1]?.week}
+              fill="hsl(var(--primary))"
+              fillOpacity={0.06}
+              label={{ value: `${result.channel} off`, position: "insideTop", fontSize: 10 }}
+            />
+            <Area
+              type="monotone"
+              dataKey="band"
+              name="Counterfactual p10–p90"
+              stroke="none"
+              fill="hsl(var(--muted-foreground))"
+              fillOpacity={0.15}
+            />
+            <Line
+              type="monotone"
+              dataKey="counterfactual"
+              name="Counterfactual"
+              stroke="hsl(var(--muted-foreground))"
+              strokeWidth={2}
+              strokeDasharray="5 4"
+              dot={false}
+            />
+            <Line type="monotone" dataKey="actual" name="Treated regions" stroke={color} strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid gap-2 text-[11px] text-muted-foreground md:grid-cols-2">
+        <p>
+          <span className="font-medium text-foreground">Treated:</span>{" "}
+          {treated.map((region) => region.name).join(", ")} (
+          {percentFormatter.format(treated.reduce((sum, region) => sum + region.share, 0))} of volume)
+        </p>
+        <p>
+          <span className="font-medium text-foreground">
+            {result.method === "synthetic_control" ? "Synthetic control:" : "Largest controls:"}
+          </span>{" "}
+          {donors.map((region) => `${region.name} ${percentFormatter.format(region.weight)}`).join(", ")}
+        </p>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        {METHOD_LABELS[result.method]} tracks the treated regions to within{" "}
+        {percentFormatter.format(result.preFitError)} a week over the {preWeeks}-week pre-period.{" "}
+        {detected
+          ? `The lift interval excludes zero, so this design detects ${result.channel}'s contribution.`
+          : `The lift interval includes zero: this design cannot tell ${result.channel}'s contribution from noise. ` +
+            "Try more treated regions, a longer test or a lower noise level."}{" "}
+        Intervals come from placebo tests on control regions, so they widen when regions drift apart after the
+        pre-period.
+      </p>
+
+      {onCalibrate && (
+        <div className="flex items-center justify-between gap-3 rounded-lg border bg-background/80 p-3">
+          <p className="text-[11px] text-muted-foreground">
+            Calibrate the model with this readout, scaled from the treated regions to a national month.
+          </p>
+          <Button size="sm" variant="outline" className="h-7 shrink-0 text-[11px]" onClick={onCalibrate}>
+            Use as calibration
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { OptionTabs } from "@/components/simulator/OptionTabs";
+import type { GoalMetric, GoalTarget, ScenarioSummary } from "@/engine";
+import { currencyFormatter, numberFormatter } from "@/lib/format";
+
+interface GoalControlsProps {
+  goal: GoalTarget | null;
+  /** The current scenario's results, which the target starts from and the slider ranges around. */
+  summary: ScenarioSummary;
+  onChange: (update: (prev: GoalTarget | null) => GoalTarget | null) => void;
+}
+
+/**
+ * Goal slider range: a quarter to four times the scenario's current value of the metric, so any deal size or
+ * spend level can set a target near today's numbers, in round steps of about a hundredth of the span.
+ */
+function goalRange(metric: GoalMetric, summary: ScenarioSummary) {
+  const current =
+    metric === "cac" ? summary.blendedCAC : metric === "roas" ? summary.blendedROAS : summary.totalConversions;
+  const step = Math.pow(10, Math.floor(Math.log10(Math.max(current * 3.75, 1e-9) / 100)));
+  const round = (value: number) => Math.round(value / step) * step;
+  return { current, min: Math.max(step, round(current * 0.25)), max: Math.max(step, round(current * 4)), step };
+}
+
+export const GoalControls = ({ goal, summary, onChange }: GoalControlsProps) => {
+  const changeGoalMetric = (metric: GoalMetric | "off") => {
+    if (metric === "off") {
+      onChange(() => null);
+      return;
+    }
+    // Start from a target a little better than today's numbers.
+    const { current, step } = goalRange(metric, summary);
+    const better = metric === "cac" ? 0.9 : metric === "roas" ? 1.1 : 1.2;
+    onChange(() => ({ metric, value: Math.round((current * better) / step) * step }));
+  };
+
+  const goalSlider = goalRange(goal?.metric ?? "cac", summary);
+
+  return (
+    <div className="space-y-3">
+      <OptionTabs
+        label="Goal-seek: solve budget and mix for a target"
+        value={goal?.metric ?? "off"}
+        onChange={(value) => changeGoalMetric(value as GoalMetric | "off")}
+        options={[
+          { value: "off", label: "Off" },
+          { value: "cac", label: "CAC" },
+          { value: "roas", label: "ROAS" },
+          { value: "conversions", label: "Conversions" },
+        ]}
+      />
+      {goal && (
+        <InputSlider
+          label={
+            goal.metric === "cac"
+              ? "Maximum blended CAC"
+              : goal.metric === "roas"
+                ? "Minimum blended ROAS"
+                : "Conversions per month"
+          }
+          value={goal.value}
+          min={Math.min(goalSlider.min, goal.value)}
+          max={Math.max(goalSlider.max, goal.value)}
+          step={goalSlider.step}
+          format={(v) =>
+            goal.metric === "cac"
+              ? currencyFormatter.format(v)
+              : goal.metric === "roas"
+                ? v.toFixed(1)
+                : numberFormatter.format(v)
+          }
+          onChange={(value) => onChange((prev) => prev && { ...prev, value })}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { Button } from "@/components/ui/button";
+import { SummaryMetric } from "@/components/simulator/SummaryMetric";
+import type { GoalSeekResult } from "@/engine";
+import { currencyFormatter, numberFormatter } from "@/lib/format";
+
+interface GoalSeekPanelProps {
+  goalSeek: GoalSeekResult;
+  /** The inputs changed since `goalSeek` was solved; it is shown faded until the new solution arrives. */
+  seeking: boolean;
+  totalSpend: number;
+  onApply: () => void;
+}
+
+export const GoalSeekPanel = ({ goalSeek, seeking, totalSpend, onApply }: GoalSeekPanelProps) => (
+  <div className={`space-y-2 transition-opacity ${seeking ? "opacity-60" : ""}`}>
+    <div className="grid gap-4 md:grid-cols-3">
+      <SummaryMetric
+        label="Budget to reach target"
+        value={goalSeek.feasible ? currencyFormatter.format(goalSeek.totalBudget) : "Infeasible"}
+        helper={
+          goalSeek.feasible
+            ? `${currencyFormatter.format(goalSeek.totalBudget - totalSpend)} vs. current monthly spend.`
+            : "No budget within the channels' spend ranges reaches the target."
+        }
+      />
+      <SummaryMetric
+        label={
+          goalSeek.target.metric === "cac"
+            ? "Blended CAC at that budget"
+            : goalSeek.target.metric === "roas"
+              ? "Blended ROAS at that budget"
+              : "Conversions at that budget"
+        }
+        value={
+          goalSeek.target.metric === "cac"
+            ? currencyFormatter.format(goalSeek.achieved)
+            : numberFormatter.format(goalSeek.achieved)
+        }
+        helper={
+          goalSeek.feasible
+            ? "Meets the target with the optimised channel mix."
+            : "Closest the simulator can get within the spend ranges."
+        }
+      />
+      <SummaryMetric
+        label="Channel mix"
+        value={goalSeek.rows
+          .map((row) => `${Math.round((row.after / Math.max(goalSeek.totalBudget, 1)) * 100)}%`)
+          .join(" / ")}
+        helper={goalSeek.rows.map((row) => row.channel).join(" / ")}
+      />
+    </div>
+    {goalSeek.feasible && (
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={onApply}>
+          Apply this budget to the spend sliders
+        </Button>
+      </div>
+    )}
+  </div>
+);
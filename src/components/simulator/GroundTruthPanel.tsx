@@ -0,0 +1,107 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AttributionModel, GroundTruthReport } from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+const MODEL_LABELS: Record<AttributionModel, string> = {
+  last_click: "Last click",
+  position_based: "Position-based",
+  time_decay: "Time-decay",
+  markov: "Markov chain",
+  shapley: "Shapley",
+  bayesian_mmm: "Bayesian MMM",
+};
+
+interface GroundTruthPanelProps {
+  report: GroundTruthReport;
+  mmmPending: boolean;
+}
+
+export const GroundTruthPanel = ({ report, mmmPending }: GroundTruthPanelProps) => {
+  const channels = Object.keys(report.truth);
+  const signed = (value: number) => `${value > 0 ? "+" : ""}${percentFormatter.format(value)}`;
+  const signedConversions = (value: number) => `${value > 0 ? "+" : ""}${numberFormatter.format(value)} conv.`;
+  // Bias class, with channels whose truth is too small for a relative bias left neutral.
+  const biasClass = (bias: number | null) => {
+    if (bias === null) return "text-muted-foreground";
+    if (Math.abs(bias) < 0.15) return "text-primary";
+    return Math.abs(bias) > 0.5 ? "text-destructive" : "";
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[28%]">Model</TableHead>
+            <TableHead className="text-right">Mean absolute error</TableHead>
+            <TableHead className="text-right">Ranks right</TableHead>
+            <TableHead className="text-right">Rank correlation</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.models.map((m) => (
+            <TableRow key={m.model}>
+              <TableCell className="font-medium">{MODEL_LABELS[m.model]}</TableCell>
+              <TableCell className="text-right">{numberFormatter.format(m.meanAbsoluteError)} conv.</TableCell>
+              <TableCell className="text-right">{percentFormatter.format(m.rankAccuracy)}</TableCell>
+              <TableCell className="text-right">{m.rankCorrelation.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-2">
+        <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
+          Bias by channel (estimate vs. true incremental, rank in brackets)
+        </p>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[28%]">Model</TableHead>
+              {channels.map((channel) => (
+                <TableHead key={channel} className="text-right">
+                  {channel}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell className="font-medium">Ground truth</TableCell>
+              {channels.map((channel) => (
+                <TableCell key={channel} className="text-right text-muted-foreground">
+                  {numberFormatter.format(report.truth[channel])} conv.
+                </TableCell>
+              ))}
+            </TableRow>
+            {report.models.map((m) => (
+              <TableRow key={m.model}>
+                <TableCell className="font-medium">{MODEL_LABELS[m.model]}</TableCell>
+                {m.channels.map((c) => (
+                  <TableCell
+                    key={c.channel}
+                    className={`text-right ${biasClass(c.bias)}`}
+                    title={`Estimate ${numberFormatter.format(c.estimate)}, absolute error ${numberFormatter.format(c.absoluteError)}`}
+                  >
+                    {c.bias === null ? signedConversions(c.estimate - c.truth) : signed(c.bias)}{" "}
+                    <span className={c.estimatedRank === c.trueRank ? "text-muted-foreground" : "text-destructive"}>
+                      (#{c.estimatedRank})
+                    </span>
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        The simulator knows each channel&apos;s true incremental conversions because it generated them; the models only
+        see observed journeys or aggregate weekly data. Bias compares what each model would report for a channel with
+        that truth, and a rank in red means the model orders the channel differently from reality. Channels with almost
+        no true incremental conversions show the difference in conversions instead.
+        {mmmPending && " Bayesian MMM joins the comparison once its posterior is ready."}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { getChannelDefinition, type Channel, type ChannelDefinition, type HaloEffect } from "@/engine";
+import { percentFormatter } from "@/lib/format";
+
+interface HaloControlsProps {
+  halo: HaloEffect[];
+  channels: ChannelDefinition[];
+  onChange: (update: (prev: HaloEffect[]) => HaloEffect[]) => void;
+}
+
+export const HaloControls = ({ halo, channels, onChange }: HaloControlsProps) => {
+  const hasHalo = (from: Channel, to: Channel) => halo.some((effect) => effect.from === from && effect.to === to);
+  const availableHaloPaths = channels.flatMap((from) =>
+    channels
+      .filter((to) => to.name !== from.name && !hasHalo(from.name, to.name))
+      .map((to) => ({ value: `${from.name}|${to.name}`, label: `${from.label} → ${to.label}` })),
+  );
+
+  const updateHalo = (idx: number, patch: Partial<HaloEffect>) => {
+    onChange((prev) => prev.map((effect, i) => (i === idx ? { ...effect, ...patch } : effect)));
+  };
+
+  const removeHalo = (idx: number) => {
+    onChange((prev) => prev.filter((_, i) => i !== idx));
+  };
+
+  const addHalo = (path: string) => {
+    const [from, to] = path.split("|");
+    onChange((prev) => [...prev, { from, to, strength: 0.1, lagWeeks: 1 }]);
+  };
+
+  return (
+    <div className="space-y-4">
+      {halo.map((effect, idx) => (
+        <div key={`${effect.from}-${effect.to}`} className="grid gap-2 md:grid-cols-2">
+          <InputSlider
+            label={`${getChannelDefinition(effect.from)?.label ?? effect.from} → ${
+              getChannelDefinition(effect.to)?.label ?? effect.to
+            }`}
+            value={effect.strength}
+            min={0}
+            max={0.6}
+            step={0.05}
+            format={(v) => percentFormatter.format(v)}
+            onChange={(value) => updateHalo(idx, { strength: value })}
+            onRemove={() => removeHalo(idx)}
+          />
+          <InputSlider
+            label="Lag"
+            value={effect.lagWeeks}
+            min={0}
+            max={8}
+            step={1}
+            format={(v) => `${v} wk`}
+            onChange={(value) => updateHalo(idx, { lagWeeks: value })}
+          />
+        </div>
+      ))}
+      {availableHaloPaths.length > 0 && (
+        <Select value="" onValueChange={addHalo}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue placeholder="Add a halo effect…" />
+          </SelectTrigger>
+          <SelectContent className="text-xs">
+            {availableHaloPaths.map((path) => (
+              <SelectItem key={path.value} value={path.value}>
+                {path.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <p className="text-[11px] text-muted-foreground leading-snug">
+        A halo is demand one channel creates that converts through another: a LinkedIn ad today, a brand search two
+        weeks later. Strength is the extra conversions as a share of the first channel&apos;s own incremental effect.
+        Last click credits them to the second channel; an MMM can only find them in lagged spend.
+      </p>
+    </div>
+  );
+};
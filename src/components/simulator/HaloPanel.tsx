@@ -0,0 +1,151 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ChannelDefinition, HaloReport } from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+/** Strength at which a heatmap cell is fully shaded. */
+const MAX_SHADED_STRENGTH = 0.5;
+
+interface HaloPanelProps {
+  report: HaloReport;
+  channels: ChannelDefinition[];
+  mmmPending: boolean;
+}
+
+export const HaloPanel = ({ report, channels, mmmPending }: HaloPanelProps) => {
+  const { flows } = report;
+  const label = (name: string) => channels.find((ch) => ch.name === name)?.label ?? name;
+  const chartData = report.channels.map((row) => ({
+    channel: row.channel,
+    truth: row.trueConversions,
+    lastClick: row.lastClick,
+    mmm: row.mmm,
+  }));
+  const haloTotal = flows.reduce((sum, flow) => sum + flow.conversions, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className="space-y-2">
+          <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
+            Halo matrix (from row → to column)
+          </p>
+          <div
+            className="grid gap-1 text-[11px]"
+            style={{ gridTemplateColumns: `minmax(90px, auto) repeat(${channels.length}, minmax(0, 1fr))` }}
+          >
+            <span />
+            {channels.map((ch) => (
+              <span key={ch.name} className="truncate text-center text-muted-foreground">
+                {ch.label}
+              </span>
+            ))}
+            {channels.map((from) => [
+              <span key={from.name} className="truncate font-medium">
+                {from.label}
+              </span>,
+              ...channels.map((to) => {
+                const flow = flows.find((f) => f.from === from.name && f.to === to.name);
+                return (
+                  <div
+                    key={`${from.name}-${to.name}`}
+                    className="flex h-12 flex-col items-center justify-center rounded border"
+                    style={
+                      flow
+                        ? {
+                            backgroundColor: `hsl(var(--primary) / ${Math.min(flow.strength / MAX_SHADED_STRENGTH, 1)})`,
+                          }
+                        : undefined
+                    }
+                    title={
+                      flow
+                        ? `${numberFormatter.format(flow.conversions)} conversions a month via ${to.label}`
+                        : undefined
+                    }
+                  >
+                    {from.name === to.name ? (
+                      <span className="text-muted-foreground">—</span>
+                    ) : flow ? (
+                      <>
+                        <span className="font-semibold">{percentFormatter.format(flow.strength)}</span>
+                        <span className="text-[10px]">{`${flow.lagWeeks}w lag`}</span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">0</span>
+                    )}
+                  </div>
+                );
+              }),
+            ])}
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            A cell&apos;s strength is the extra conversions the row channel drives through the column channel, as a
+            share of its own direct incremental conversions.
+          </p>
+        </div>
+
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" vertical={false} />
+              <XAxis dataKey="channel" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <RechartsTooltip
+                contentStyle={{ fontSize: 11 }}
+                formatter={(value: number, name: string) => [`${numberFormatter.format(value)} conv.`, name]}
+              />
+              <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+              <Bar dataKey="truth" name="True (incl. halo)" fill="hsl(var(--primary))" radius={[3, 3, 0, 0]} />
+              <Bar dataKey="lastClick" name="Last click" fill="hsl(var(--muted-foreground))" radius={[3, 3, 0, 0]} />
+              <Bar dataKey="mmm" name="MMM" fill="hsl(var(--accent))" radius={[3, 3, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[32%]">Halo path</TableHead>
+            <TableHead className="text-right">Conv. / month</TableHead>
+            <TableHead className="text-right">Last click</TableHead>
+            <TableHead className="text-right">Time decay</TableHead>
+            <TableHead className="text-right">Position / Markov / Shapley</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {flows.map((flow) => (
+            <TableRow key={`${flow.from}-${flow.to}`}>
+              <TableCell className="font-medium">
+                {`${label(flow.from)} → ${label(flow.to)} (${flow.lagWeeks}w)`}
+              </TableCell>
+              <TableCell className="text-right">{numberFormatter.format(flow.conversions)}</TableCell>
+              <TableCell className="text-right">{percentFormatter.format(flow.fromCredit.last_click)}</TableCell>
+              <TableCell className="text-right">{percentFormatter.format(flow.fromCredit.time_decay)}</TableCell>
+              <TableCell className="text-right">{percentFormatter.format(flow.fromCredit.position_based)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-[11px] text-muted-foreground">
+        Credit columns show the share of each path&apos;s conversions a model gives back to the channel that caused
+        them. Last click hands all {numberFormatter.format(haloTotal)} halo conversions to the channel they arrive
+        through.{" "}
+        {mmmPending
+          ? "The MMM is still fitting."
+          : "The MMM never sees paths; it can only pick up a halo from how lagged spend moves with conversions, " +
+            "so it recovers part of it for the channel that caused it."}
+      </p>
+    </div>
+  );
+};
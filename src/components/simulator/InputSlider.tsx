@@ -0,0 +1,51 @@
+import { X } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { currencyFormatter } from "@/lib/format";
+
+interface InputSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  onRemove?: () => void;
+  format?: (value: number) => string;
+}
+
+export const InputSlider = ({
+  label,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+  onRemove,
+  format = (v) => currencyFormatter.format(v),
+}: InputSliderProps) => {
+  return (
+    <div className="space-y-1 rounded-lg border bg-background/80 p-3">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-foreground">{label}</span>
+        <span className="flex items-center gap-2">
+          <span className="font-mono text-[11px] text-muted-foreground">{format(value)}</span>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              aria-label={`Remove ${label}`}
+              className="text-muted-foreground transition-colors hover:text-destructive"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={([v]) => onChange(v)} className="mt-1" />
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{format(min)}</span>
+        <span>{format(max)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  MARKOV_CONVERSION,
+  MARKOV_NULL,
+  MARKOV_START,
+  stateChannels,
+  type ChannelDefinition,
+  type MarkovResult,
+} from "@/engine";
+import { percentFormatter } from "@/lib/format";
+
+const MAX_ROWS = 12;
+
+interface MarkovPanelProps {
+  markov: MarkovResult;
+  channels: ChannelDefinition[];
+}
+
+export const MarkovPanel = ({ markov, channels }: MarkovPanelProps) => {
+  // Columns are keyed by the channel a transition moves into, so higher-order chains fit the same grid.
+  const columns = [...channels.map((ch) => ch.name), MARKOV_CONVERSION, MARKOV_NULL];
+  const columnOf = (to: string) => {
+    if (to === MARKOV_CONVERSION || to === MARKOV_NULL) return to;
+    const visited = stateChannels(to);
+    return visited[visited.length - 1];
+  };
+
+  const visits = new Map<string, number>();
+  markov.transitions.forEach((t) => visits.set(t.from, (visits.get(t.from) ?? 0) + t.count));
+
+  const rows = markov.states
+    .slice()
+    .sort((a, b) => (a === MARKOV_START ? -1 : b === MARKOV_START ? 1 : (visits.get(b) ?? 0) - (visits.get(a) ?? 0)))
+    .slice(0, MAX_ROWS)
+    .map((state) => {
+      const cells: Record<string, number> = {};
+      markov.transitions
+        .filter((t) => t.from === state)
+        .forEach((t) => {
+          const column = columnOf(t.to);
+          cells[column] = (cells[column] ?? 0) + t.probability;
+        });
+      return { state, cells };
+    });
+
+  const maxEffect = Math.max(...markov.removalEffects.map((r) => r.removalEffect), 0.0001);
+  const colorOf = (channel: string) => channels.find((ch) => ch.name === channel)?.color ?? "hsl(var(--primary))";
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[120px]">From \ to</TableHead>
+              {columns.map((column) => (
+                <TableHead key={column} className="text-right whitespace-nowrap">
+                  {column === MARKOV_CONVERSION ? "Conversion" : column === MARKOV_NULL ? "Drop-off" : column}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ state, cells }) => (
+              <TableRow key={state}>
+                <TableCell className="font-medium whitespace-nowrap">
+                  {state === MARKOV_START ? "Start" : state}
+                </TableCell>
+                {columns.map((column) => {
+                  const probability = cells[column] ?? 0;
+                  return (
+                    <TableCell
+                      key={column}
+                      className="text-right font-mono text-[11px]"
+                      style={{ backgroundColor: `hsl(var(--primary) / ${(probability * 0.6).toFixed(3)})` }}
+                    >
+                      {probability > 0 ? percentFormatter.format(probability) : "–"}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">Removal effects</p>
+        {markov.removalEffects.map((r) => (
+          <div key={r.channel} className="grid grid-cols-[110px_minmax(0,1fr)_120px] items-center gap-3 text-xs">
+            <span className="font-medium text-foreground truncate">{r.channel}</span>
+            <div className="h-2 rounded-full bg-muted">
+              <div
+                className="h-2 rounded-full"
+                style={{ width: `${(r.removalEffect / maxEffect) * 100}%`, backgroundColor: colorOf(r.channel) }}
+              />
+            </div>
+            <span className="text-right font-mono text-[11px] text-muted-foreground">
+              {percentFormatter.format(r.removalEffect)} · {percentFormatter.format(r.share)} share
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Order-{markov.order} chain built from the simulated paths (baseline conversion probability{" "}
+        {percentFormatter.format(markov.conversionProbability)}).
+        {markov.states.length > MAX_ROWS && ` Showing the ${MAX_ROWS} most visited of ${markov.states.length} states.`}{" "}
+        A channel&apos;s removal effect is how much that probability drops when every path through it ends in drop-off
+        instead; the Markov model distributes conversions in proportion to these effects.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { MmmFit } from "@/engine";
+import { numberFormatter } from "@/lib/format";
+
+interface MmmPosteriorPanelProps {
+  fit: MmmFit | null;
+  fitting: boolean;
+  /** The fit belongs to earlier inputs: it is being refitted, or the last refit failed. */
+  stale: boolean;
+}
+
+export const MmmPosteriorPanel = ({ fit, fitting, stale }: MmmPosteriorPanelProps) => {
+  if (!fit) {
+    return (
+      <p className="text-[11px] text-muted-foreground">
+        Fitting the Bayesian MMM in the background… incremental figures use the structural estimate until the
+        posterior is ready.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">MMM posterior</p>
+        {(fitting || stale) && (
+          <span className="text-[11px] text-muted-foreground">
+            {fitting ? "Refitting…" : "Out of date: the refit failed"}
+          </span>
+        )}
+      </div>
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[30%]">Channel</TableHead>
+            <TableHead className="text-right">Incremental / month</TableHead>
+            <TableHead className="text-right">80% interval</TableHead>
+            <TableHead className="text-right">Adstock decay</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fit.channels.map((c) => (
+            <TableRow key={c.channel}>
+              <TableCell className="font-medium">{c.channel}</TableCell>
+              <TableCell className="text-right">{numberFormatter.format(c.contribution.mean)}</TableCell>
+              <TableCell className="text-right text-muted-foreground">
+                {numberFormatter.format(c.contribution.low)} – {numberFormatter.format(c.contribution.high)}
+              </TableCell>
+              <TableCell className="text-right">{c.decay.mean.toFixed(2)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <p className="text-[11px] text-muted-foreground">
+        Regression of {fit.weeks} weeks of simulated conversions on adstocked, saturated spend with a baseline and
+        noise term, fitted by MCMC ({numberFormatter.format(fit.draws)} posterior draws, R²{" "}
+        {fit.rSquared.toFixed(2)}). Baseline: {numberFormatter.format(fit.baseline.mean)} conversions / week.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const GRID_COLUMNS: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+};
+
+interface OptionTabsProps<T extends string> {
+  label: string;
+  value: T;
+  onChange: (value: T) => void;
+  options: { value: T; label: string }[];
+}
+
+export const OptionTabs = <T extends string>({ label, value, onChange, options }: OptionTabsProps<T>) => {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <Tabs value={value} onValueChange={(v) => onChange(v as T)} className="w-full">
+        <TabsList className={`grid w-full ${GRID_COLUMNS[options.length] ?? "grid-cols-3"} bg-muted/70`}>
+          {options.map((opt) => (
+            <TabsTrigger key={opt.value} value={opt.value} className="text-xs">
+              {opt.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ChannelDefinition, PlatformChannelSetting, PlatformReport } from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+interface PlatformPanelProps {
+  report: PlatformReport;
+  channels: ChannelDefinition[];
+}
+
+const formatSetting = (setting: PlatformChannelSetting) =>
+  setting.viewWindowDays > 0
+    ? `${setting.clickWindowDays}d click, ${setting.viewWindowDays}d view`
+    : `${setting.clickWindowDays}d click`;
+
+export const PlatformPanel = ({ report, channels }: PlatformPanelProps) => {
+  const total = Math.max(report.deduplicated, 1e-9);
+  // Conversions credited to channels without an ad platform, which only appear in the de-duplicated bar.
+  const other = report.deduplicated - report.rows.reduce((sum, row) => sum + row.deduplicated, 0);
+  // Two stacked bars, both as a share of the de-duplicated total: what the platforms claim, and what happened.
+  const chartData = [
+    {
+      bar: "Self-reported",
+      ...Object.fromEntries(report.rows.map((row) => [row.platform, row.reported / total])),
+    },
+    {
+      bar: "De-duplicated",
+      ...Object.fromEntries(report.rows.map((row) => [row.platform, row.deduplicated / total])),
+      Other: other / total,
+    },
+  ];
+  const definition = (setting: PlatformChannelSetting) => channels.find((ch) => ch.name === setting.channel);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" vertical={false} />
+              <XAxis dataKey="bar" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <YAxis
+                tick={{ fontSize: 11 }}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v: number) => percentFormatter.format(v)}
+              />
+              <RechartsTooltip
+                contentStyle={{ fontSize: 11 }}
+                formatter={(value: number, name: string) => [percentFormatter.format(value), name]}
+              />
+              <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+              <ReferenceLine
+                y={1}
+                stroke="hsl(var(--destructive))"
+                strokeDasharray="4 4"
+                label={{ value: "De-duplicated total", position: "insideTopRight", fontSize: 10 }}
+              />
+              {report.rows.map((row) => (
+                <Bar
+                  key={row.platform}
+                  dataKey={row.platform}
+                  stackId="conversions"
+                  fill={definition(row.channels[0])?.color}
+                />
+              ))}
+              {other > 0 && (
+                <Bar dataKey="Other" name="Other channels" stackId="conversions" fill="hsl(var(--muted-foreground))" />
+              )}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[30%]">Platform</TableHead>
+              <TableHead className="text-right">Setting</TableHead>
+              <TableHead className="text-right">Click-through</TableHead>
+              <TableHead className="text-right">View-through</TableHead>
+              <TableHead className="text-right">Self-reported</TableHead>
+              <TableHead className="text-right">De-duplicated</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.rows.map((row) => (
+              <TableRow key={row.platform}>
+                <TableCell>
+                  <p className="font-medium">{row.platform}</p>
+                  {row.channels.length > 1 && (
+                    <p className="text-[10px] text-muted-foreground">
+                      {row.channels.map((setting) => definition(setting)?.label ?? setting.channel).join(" + ")}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {row.channels.length > 1
+                    ? row.channels.map((setting) => (
+                        <p key={setting.channel}>
+                          {definition(setting)?.label ?? setting.channel}: {formatSetting(setting)}
+                        </p>
+                      ))
+                    : formatSetting(row.channels[0])}
+                </TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.clickConversions)}</TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.viewConversions)}</TableCell>
+                <TableCell className="text-right font-medium">{numberFormatter.format(row.reported)}</TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.deduplicated)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-medium">
+              <TableCell>Total</TableCell>
+              <TableCell />
+              <TableCell />
+              <TableCell />
+              <TableCell className="text-right">{numberFormatter.format(report.reported)}</TableCell>
+              <TableCell className="text-right">{numberFormatter.format(report.deduplicated)}</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Each platform counts every conversion with one of its own clicks or views inside its window as fully its own, so
+        the same conversion is claimed several times over. A platform running several channels counts a conversion once
+        across them. Added up, the platforms report {numberFormatter.format(report.reported)} conversions against{" "}
+        {numberFormatter.format(report.deduplicated)} that happened, an over-count of{" "}
+        {percentFormatter.format(report.overCount)}. The de-duplicated column is the selected model&apos;s credit, which
+        splits each conversion once.
+      </p>
+    </div>
+  );
+};
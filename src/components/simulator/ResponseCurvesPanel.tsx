@@ -0,0 +1,168 @@
+import { useState } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceDot,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MARGINAL_SPEND_STEP, type Channel, type ChannelDefinition, type ResponseCurve } from "@/engine";
+import { currencyFormatter, numberFormatter } from "@/lib/format";
+
+interface ResponseCurvesPanelProps {
+  curves: ResponseCurve[];
+  channels: ChannelDefinition[];
+}
+
+export const ResponseCurvesPanel = ({ curves, channels }: ResponseCurvesPanelProps) => {
+  const ranked = curves.slice().sort((a, b) => b.marginalRoas - a.marginalRoas);
+  const [selected, setSelected] = useState<Channel | null>(null);
+  const curve = curves.find((c) => c.channel === selected) ?? ranked[0];
+
+  if (!curve) return null;
+
+  const definition = channels.find((ch) => ch.name === curve.channel);
+  const color = definition?.color ?? "hsl(var(--primary))";
+  const step = currencyFormatter.format(MARGINAL_SPEND_STEP);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[11px] text-muted-foreground">
+          Incremental revenue and marginal ROAS from $0 to 3× current monthly spend.
+        </p>
+        <Select value={curve.channel} onValueChange={setSelected}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue placeholder="Select channel" />
+          </SelectTrigger>
+          <SelectContent className="text-xs">
+            {channels.map((ch) => (
+              <SelectItem key={ch.name} value={ch.name}>
+                {ch.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={curve.points}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+            <XAxis
+              dataKey="spend"
+              type="number"
+              domain={[0, "dataMax"]}
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => `$${Math.round(value / 1000)}K`}
+            />
+            <YAxis
+              yAxisId="revenue"
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => `$${Math.round(value / 1000)}K`}
+            />
+            <YAxis
+              yAxisId="marginal"
+              orientation="right"
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              label={{ value: "Marginal ROAS", angle: 90, position: "insideRight", fontSize: 10 }}
+            />
+            <RechartsTooltip
+              contentStyle={{ fontSize: 11 }}
+              labelFormatter={(value: number) => `Spend ${currencyFormatter.format(value)}`}
+              formatter={(value: number, name: string) =>
+                name === "Marginal ROAS" ? numberFormatter.format(value) : currencyFormatter.format(value)
+              }
+            />
+            <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+            <Line
+              yAxisId="revenue"
+              type="monotone"
+              dataKey="revenue"
+              name="Incremental revenue"
+              stroke={color}
+              strokeWidth={2}
+              dot={false}
+            />
+            <Line
+              yAxisId="marginal"
+              type="monotone"
+              dataKey="marginalRoas"
+              name="Marginal ROAS"
+              stroke="hsl(var(--muted-foreground))"
+              strokeWidth={2}
+              strokeDasharray="5 4"
+              dot={false}
+            />
+            <ReferenceDot
+              yAxisId="revenue"
+              x={curve.currentSpend}
+              y={curve.currentRevenue}
+              r={5}
+              fill={color}
+              stroke="hsl(var(--background))"
+              label={{ value: "Current spend", position: "top", fontSize: 10 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
+          Where the next {step} goes furthest
+        </p>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[35%]">Channel</TableHead>
+              <TableHead className="text-right">Current spend</TableHead>
+              <TableHead className="text-right">Marginal ROAS</TableHead>
+              <TableHead className="text-right">Revenue from next {step}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ranked.map((c, idx) => (
+              <TableRow key={c.channel}>
+                <TableCell className="font-medium">
+                  <span className="inline-flex items-center gap-2">
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: channels.find((ch) => ch.name === c.channel)?.color }}
+                    />
+                    {c.channel}
+                    {idx === 0 && <span className="text-[10px] text-primary">Best next {step}</span>}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{currencyFormatter.format(c.currentSpend)}</TableCell>
+                <TableCell className={`text-right ${c.marginalRoas < 1 ? "text-destructive" : ""}`}>
+                  {numberFormatter.format(c.marginalRoas)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {currencyFormatter.format(c.marginalRoas * MARGINAL_SPEND_STEP)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Curves follow each channel&apos;s Hill saturation and count only incremental revenue, so marginal ROAS falls
+        as spend grows. The next dollars belong where marginal ROAS is highest; below 1.0 an extra dollar no longer
+        pays for itself.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { OptionTabs } from "@/components/simulator/OptionTabs";
+import {
+  averageDealValue,
+  dealValueQuantiles,
+  type Channel,
+  type ChannelDefinition,
+  type DealSegment,
+  type DealValueDistribution,
+  type RevenueModel,
+} from "@/engine";
+import { currencyFormatter, percentFormatter } from "@/lib/format";
+
+interface RevenueControlsProps {
+  revenue: RevenueModel;
+  channels: ChannelDefinition[];
+  onChange: (update: (prev: RevenueModel) => RevenueModel) => void;
+}
+
+export const RevenueControls = ({ revenue, channels, onChange }: RevenueControlsProps) => {
+  const dealQuantiles = dealValueQuantiles(revenue);
+
+  const updateDealSegment = (idx: number, patch: Partial<DealSegment>) => {
+    onChange((prev) => ({
+      ...prev,
+      segments: (prev.segments ?? []).map((segment, i) => (i === idx ? { ...segment, ...patch } : segment)),
+    }));
+  };
+
+  const updateChannelMultiplier = (name: Channel, value: number) => {
+    onChange((prev) => ({ ...prev, channelMultipliers: { ...prev.channelMultipliers, [name]: value } }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <OptionTabs
+        label="Deal value distribution"
+        value={revenue.distribution}
+        onChange={(value) => onChange((prev) => ({ ...prev, distribution: value as DealValueDistribution }))}
+        options={[
+          { value: "lognormal", label: "Lognormal" },
+          { value: "segments", label: "Segment mix" },
+        ]}
+      />
+
+      {revenue.distribution === "lognormal" ? (
+        <div className="grid gap-2 md:grid-cols-2">
+          <InputSlider
+            label="Average deal value"
+            value={revenue.averageValue}
+            min={100}
+            max={60000}
+            step={100}
+            format={(v) => currencyFormatter.format(v)}
+            onChange={(value) => onChange((prev) => ({ ...prev, averageValue: value }))}
+          />
+          <InputSlider
+            label="Spread (log sd)"
+            value={revenue.sigma ?? 0}
+            min={0}
+            max={1.5}
+            step={0.05}
+            format={(v) => v.toFixed(2)}
+            onChange={(value) => onChange((prev) => ({ ...prev, sigma: value }))}
+          />
+        </div>
+      ) : (
+        (revenue.segments ?? []).map((segment, idx) => (
+          <div key={segment.name} className="grid gap-2 md:grid-cols-2">
+            <InputSlider
+              label={`${segment.name} share`}
+              value={segment.share}
+              min={0}
+              max={1}
+              step={0.05}
+              format={(v) => percentFormatter.format(v)}
+              onChange={(value) => updateDealSegment(idx, { share: value })}
+            />
+            <InputSlider
+              label="Deal value"
+              value={segment.value}
+              min={500}
+              max={100000}
+              step={500}
+              format={(v) => currencyFormatter.format(v)}
+              onChange={(value) => updateDealSegment(idx, { value })}
+            />
+          </div>
+        ))
+      )}
+
+      <div className="grid gap-2 md:grid-cols-2">
+        {channels.map((ch) => (
+          <InputSlider
+            key={ch.name}
+            label={`${ch.label} deal size`}
+            value={revenue.channelMultipliers?.[ch.name] ?? 1}
+            min={0.25}
+            max={4}
+            step={0.05}
+            format={(v) => `×${v.toFixed(2)}`}
+            onChange={(value) => updateChannelMultiplier(ch.name, value)}
+          />
+        ))}
+      </div>
+      <p className="text-[11px] text-muted-foreground leading-snug">
+        Average deal {currencyFormatter.format(averageDealValue(revenue))}; 80% of deals fall between{" "}
+        {currencyFormatter.format(dealQuantiles.p10)} and {currencyFormatter.format(dealQuantiles.p90)}. Channel
+        efficiencies are revenue per dollar, so larger deals mean fewer conversions for the same revenue: CAC rises with
+        deal size while ROAS holds. A channel&apos;s multiplier scales its deal value alone, and revenue bands widen
+        when a few large deals make up the total.
+      </p>
+    </div>
+  );
+};
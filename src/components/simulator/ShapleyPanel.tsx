@@ -0,0 +1,106 @@
+import { useMemo } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  attributeJourneys,
+  type AttributionWindows,
+  type ChannelDefinition,
+  type Journey,
+  type ShapleyResult,
+} from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+const MAX_COALITIONS = 16;
+
+interface ShapleyPanelProps {
+  shapley: ShapleyResult;
+  journeys: Journey[];
+  channels: ChannelDefinition[];
+  windows: AttributionWindows;
+}
+
+export const ShapleyPanel = ({ shapley, journeys, channels, windows }: ShapleyPanelProps) => {
+  const lastClickShare = useMemo(() => {
+    const credit = attributeJourneys(journeys, "last_click", windows);
+    const total = Object.values(credit).reduce((sum, value) => sum + value, 0) || 1;
+    return (channel: string) => (credit[channel] ?? 0) / total;
+  }, [journeys, windows]);
+
+  const colorOf = (channel: string) => channels.find((ch) => ch.name === channel)?.color ?? "hsl(var(--primary))";
+
+  return (
+    <div className="space-y-4">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[35%]">Channel</TableHead>
+            <TableHead className="text-right">Shapley conversions</TableHead>
+            <TableHead className="text-right">Shapley share</TableHead>
+            <TableHead className="text-right">Last-click share</TableHead>
+            <TableHead className="text-right">Difference</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shapley.values.map((v) => {
+            const difference = v.share - lastClickShare(v.channel);
+            return (
+              <TableRow key={v.channel}>
+                <TableCell className="font-medium">
+                  <span className="inline-flex items-center gap-2">
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorOf(v.channel) }} />
+                    {v.channel}
+                  </span>
+                </TableCell>
+                <TableCell className="text-right">{numberFormatter.format(v.value)}</TableCell>
+                <TableCell className="text-right">{percentFormatter.format(v.share)}</TableCell>
+                <TableCell className="text-right">{percentFormatter.format(lastClickShare(v.channel))}</TableCell>
+                <TableCell className={`text-right ${difference > 0 ? "text-primary" : "text-muted-foreground"}`}>
+                  {difference > 0 ? "+" : ""}
+                  {percentFormatter.format(difference)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <div className="space-y-2">
+        <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
+          Observed coalitions
+        </p>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40%]">Channel subset</TableHead>
+              <TableHead className="text-right">Journeys</TableHead>
+              <TableHead className="text-right">Conversions</TableHead>
+              <TableHead className="text-right">Conversion rate</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shapley.coalitions.slice(0, MAX_COALITIONS).map((c) => (
+              <TableRow key={c.channels.join("|") || "none"}>
+                <TableCell className="font-medium">
+                  {c.channels.length ? c.channels.join(" + ") : "No tracked touch"}
+                </TableCell>
+                <TableCell className="text-right">{numberFormatter.format(c.journeys)}</TableCell>
+                <TableCell className="text-right">{numberFormatter.format(c.conversions)}</TableCell>
+                <TableCell className="text-right">{percentFormatter.format(c.conversionRate)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        {shapley.method === "exact"
+          ? `Exact Shapley values over all ${numberFormatter.format(2 ** channels.length)} channel subsets.`
+          : "Shapley values approximated by sampling channel orderings; the registry is too large for exact computation."}{" "}
+        A coalition is worth the lift in conversion rate of journeys confined to its channels over journeys with no
+        tracked touch, and each channel earns its average marginal lift across every coalition it could join, so
+        channels that open journeys get credit that last click hands entirely to the closing touch.
+        {shapley.coalitions.length > MAX_COALITIONS &&
+          ` Showing the ${MAX_COALITIONS} most common of ${shapley.coalitions.length} observed subsets.`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { Card, CardContent } from "@/components/ui/card";
+
+interface SummaryMetricProps {
+  label: string;
+  value: string;
+  helper: string;
+}
+
+export const SummaryMetric = ({ label, value, helper }: SummaryMetricProps) => (
+  <Card className="border-border/80 bg-background/90 shadow-sm">
+    <CardContent className="pt-4">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <p className="mt-1 text-lg font-semibold text-foreground">{value}</p>
+      <p className="mt-1 text-[11px] text-muted-foreground">{helper}</p>
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  GEO_REGIONS,
+  POWER_ALPHA,
+  POWER_TARGET,
+  type Channel,
+  type ChannelDefinition,
+  type ChannelTestPlan,
+  type LiftTestDesign,
+} from "@/engine";
+import { currencyFormatter, numberFormatter, percentFormatter } from "@/lib/format";
+
+/** Opacity ramp so larger holdouts read as darker lines of the channel's colour. */
+const lineOpacity = (idx: number, count: number) => 0.3 + (0.7 * (idx + 1)) / count;
+
+interface TestPlannerPanelProps {
+  plans: ChannelTestPlan[];
+  channels: ChannelDefinition[];
+  onApply: (design: LiftTestDesign) => void;
+}
+
+export const TestPlannerPanel = ({ plans, channels, onApply }: TestPlannerPanelProps) => {
+  const [selected, setSelected] = useState<Channel | null>(null);
+  const plan = plans.find((p) => p.channel === selected) ?? plans[0];
+
+  if (!plan) return null;
+
+  const color = channels.find((ch) => ch.name === plan.channel)?.color ?? "hsl(var(--primary))";
+  const holdouts = [...new Set(plan.designs.map((d) => d.treatedRegions))];
+  const curve = [...new Set(plan.designs.map((d) => d.testWeeks))].map((testWeeks) =>
+    plan.designs
+      .filter((d) => d.testWeeks === testWeeks)
+      .reduce<Record<string, number>>(
+        (row, d) => {
+          row[`${d.treatedRegions}`] = d.power;
+          return row;
+        },
+        { testWeeks },
+      ),
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-[11px] text-muted-foreground">
+          Power to detect the channel&apos;s expected lift by test length, one line per number of treated regions.
+        </p>
+        <Select value={plan.channel} onValueChange={setSelected}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue placeholder="Select channel" />
+          </SelectTrigger>
+          <SelectContent className="text-xs">
+            {channels.map((ch) => (
+              <SelectItem key={ch.name} value={ch.name}>
+                {ch.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={curve}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" />
+            <XAxis
+              dataKey="testWeeks"
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => `${value}w`}
+            />
+            <YAxis
+              domain={[0, 1]}
+              tick={{ fontSize: 11 }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(value: number) => percentFormatter.format(value)}
+            />
+            <RechartsTooltip
+              contentStyle={{ fontSize: 11 }}
+              labelFormatter={(value: number) => `${value}-week test`}
+              formatter={(value: number, name: string) => [percentFormatter.format(value), name]}
+            />
+            <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+            <ReferenceLine
+              y={POWER_TARGET}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+              label={{
+                value: `${percentFormatter.format(POWER_TARGET)} power`,
+                position: "insideBottomRight",
+                fontSize: 10,
+              }}
+            />
+            {holdouts.map((treatedRegions, idx) => (
+              <Line
+                key={treatedRegions}
+                type="monotone"
+                dataKey={`${treatedRegions}`}
+                name={`${treatedRegions} of ${GEO_REGIONS} regions`}
+                stroke={color}
+                strokeOpacity={lineOpacity(idx, holdouts.length)}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
+          Recommended design per channel
+        </p>
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[22%]">Channel</TableHead>
+              <TableHead>Design</TableHead>
+              <TableHead className="text-right">MDE</TableHead>
+              <TableHead className="text-right">Expected lift</TableHead>
+              <TableHead className="text-right">Power</TableHead>
+              <TableHead className="text-right">Spend withheld</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plans.map(({ channel, recommended: d, feasible }) => (
+              <TableRow key={channel}>
+                <TableCell className="font-medium">
+                  <span className="inline-flex items-center gap-2">
+                    <span
+                      className="h-2 w-2 rounded-full"
+                      style={{ backgroundColor: channels.find((ch) => ch.name === channel)?.color }}
+                    />
+                    {channel}
+                  </span>
+                </TableCell>
+                <TableCell>
+                  {d.treatedRegions} region{d.treatedRegions === 1 ? "" : "s"} for {d.testWeeks} weeks
+                </TableCell>
+                <TableCell className="text-right">
+                  {numberFormatter.format(d.mde)} conv. ({percentFormatter.format(d.relativeMde)})
+                </TableCell>
+                <TableCell className="text-right">{numberFormatter.format(d.expectedLift)} conv.</TableCell>
+                <TableCell className={`text-right ${feasible ? "" : "text-destructive"}`}>
+                  {percentFormatter.format(d.power)}
+                </TableCell>
+                <TableCell className="text-right">{currencyFormatter.format(d.spendWithheld)}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="outline" className="h-7 text-[11px]" onClick={() => onApply(d)}>
+                    Simulate
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Each recommendation is the design that reaches {percentFormatter.format(POWER_TARGET)} power at a two-sided{" "}
+        {percentFormatter.format(POWER_ALPHA)} level while giving up the fewest conversions; power in red means no
+        design within the planner&apos;s limits gets there, so the most powerful one is shown. The minimum detectable
+        effect (MDE) is relative to the treated regions&apos; conversions over the test. Power comes from the
+        simulator&apos;s own noise level, regional volatility and drift, and each channel&apos;s current volume and
+        carry-over.
+      </p>
+    </div>
+  );
+};
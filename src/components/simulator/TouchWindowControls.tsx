@@ -0,0 +1,83 @@
+import { Button } from "@/components/ui/button";
+import { InputSlider } from "@/components/simulator/InputSlider";
+import {
+  PLATFORM_REPORTING,
+  VIEW_LOOKBACK_DAYS,
+  type Channel,
+  type ChannelDefinition,
+  type ConversionWindow,
+  type TouchWindows,
+} from "@/engine";
+
+type TouchWindowSettings = Partial<Record<Channel, TouchWindows>>;
+
+interface TouchWindowControlsProps {
+  channels: ChannelDefinition[];
+  /** Every channel's windows, with the conversion window filling in for channels without their own. */
+  windows: Record<Channel, TouchWindows>;
+  conversionWindow: ConversionWindow;
+  onChange: (update: (prev: TouchWindowSettings) => TouchWindowSettings) => void;
+}
+
+export const TouchWindowControls = ({ channels, windows, conversionWindow, onChange }: TouchWindowControlsProps) => {
+  const updateTouchWindow = (name: Channel, patch: Partial<TouchWindows>) => {
+    onChange((prev) => ({
+      ...prev,
+      [name]: { ...(prev[name] ?? { clickDays: conversionWindow, viewDays: 0 }), ...patch },
+    }));
+  };
+
+  const applyPlatformWindows = () => {
+    onChange(() =>
+      channels.reduce<TouchWindowSettings>((acc, ch) => {
+        const reporting = PLATFORM_REPORTING[ch.name];
+        if (reporting) acc[ch.name] = { clickDays: reporting.clickWindowDays, viewDays: reporting.viewWindowDays };
+        return acc;
+      }, {}),
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={applyPlatformWindows}>
+          Use each platform&apos;s default
+        </Button>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onChange(() => ({}))}>
+          Clicks only, {conversionWindow}-day window
+        </Button>
+      </div>
+      {channels.map((ch) => (
+        <div key={ch.name} className="space-y-2 rounded-lg border bg-background/80 p-3">
+          <p className="text-xs font-medium">{ch.label}</p>
+          <div className="grid gap-2 md:grid-cols-2">
+            <InputSlider
+              label="Click-through window"
+              value={windows[ch.name].clickDays}
+              min={1}
+              max={30}
+              step={1}
+              format={(v) => `${v} d`}
+              onChange={(value) => updateTouchWindow(ch.name, { clickDays: value })}
+            />
+            <InputSlider
+              label="View-through window"
+              value={windows[ch.name].viewDays}
+              min={0}
+              max={VIEW_LOOKBACK_DAYS}
+              step={1}
+              format={(v) => (v > 0 ? `${v} d` : "Off")}
+              onChange={(value) => updateTouchWindow(ch.name, { viewDays: value })}
+            />
+          </div>
+        </div>
+      ))}
+      <p className="text-[11px] text-muted-foreground leading-snug">
+        Journeys hold clicks and views as separate touches. A click counts when it falls inside its channel&apos;s click
+        window before the conversion, a view inside the view window. Last click only credits a view when the path has no
+        eligible click; the other path models credit views like clicks. Channels without their own setting use the
+        conversion window for clicks and no views.
+      </p>
+    </div>
+  );
+};
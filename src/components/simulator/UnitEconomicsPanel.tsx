@@ -0,0 +1,62 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LTV_HORIZON_MONTHS, type ChannelDefinition, type UnitEconomicsReport, type UnitEconomicsRow } from "@/engine";
+import { currencyFormatter, formatPayback, numberFormatter } from "@/lib/format";
+
+/** LTV:CAC below which a channel is flagged as not earning back its acquisition cost comfortably. */
+const HEALTHY_LTV_TO_CAC = 3;
+
+interface UnitEconomicsPanelProps {
+  report: UnitEconomicsReport;
+  channels: ChannelDefinition[];
+}
+
+export const UnitEconomicsPanel = ({ report, channels }: UnitEconomicsPanelProps) => {
+  const rows: { key: string; label: string; row: UnitEconomicsRow }[] = [
+    ...report.channels.map((row) => ({
+      key: row.channel ?? "",
+      label: channels.find((ch) => ch.name === row.channel)?.label ?? row.channel ?? "",
+      row,
+    })),
+    { key: "blended", label: "Blended", row: report.blended },
+    { key: "planned", label: "Blended, budget plan", row: report.planned },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <Table className="text-xs">
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[28%]">Channel</TableHead>
+            <TableHead className="text-right">Customers / month</TableHead>
+            <TableHead className="text-right">CAC</TableHead>
+            <TableHead className="text-right">LTV</TableHead>
+            <TableHead className="text-right">LTV:CAC</TableHead>
+            <TableHead className="text-right">Payback</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ key, label, row }) => (
+            <TableRow key={key} className={row.channel ? undefined : "font-medium"}>
+              <TableCell className="font-medium">{label}</TableCell>
+              <TableCell className="text-right">{numberFormatter.format(row.customers)}</TableCell>
+              <TableCell className="text-right">{currencyFormatter.format(row.cac)}</TableCell>
+              <TableCell className="text-right">{currencyFormatter.format(row.ltv)}</TableCell>
+              <TableCell
+                className={`text-right ${row.ltvToCac < HEALTHY_LTV_TO_CAC ? "text-destructive" : "text-foreground"}`}
+              >
+                {`${numberFormatter.format(row.ltvToCac)}×`}
+              </TableCell>
+              <TableCell className="text-right">{formatPayback(row.paybackMonths)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <p className="text-[11px] text-muted-foreground">
+        Customers are each channel&apos;s attributed closed-won deals, paying a twelfth of the deal value a month once
+        ramped. LTV is gross margin over {LTV_HORIZON_MONTHS} months after churn and expansion; payback is the months of
+        margin it takes to earn back the CAC. Ratios below {HEALTHY_LTV_TO_CAC}× are highlighted.
+      </p>
+    </div>
+  );
+};
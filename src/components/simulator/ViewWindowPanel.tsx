@@ -0,0 +1,98 @@
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { VIEW_WINDOW_STEPS, type ChannelDefinition, type ViewWindowReport } from "@/engine";
+import { numberFormatter, percentFormatter } from "@/lib/format";
+
+const MODEL_LABELS: Record<ViewWindowReport["model"], string> = {
+  last_click: "last click",
+  position_based: "position-based",
+  time_decay: "time-decay",
+};
+
+interface ViewWindowPanelProps {
+  report: ViewWindowReport;
+  channels: ChannelDefinition[];
+}
+
+export const ViewWindowPanel = ({ report, channels }: ViewWindowPanelProps) => {
+  const chartData = VIEW_WINDOW_STEPS.map((viewDays, idx) => ({
+    viewDays: `${viewDays}d`,
+    ...Object.fromEntries(report.channels.map((row) => [row.channel, row.points[idx]?.attributedConversions ?? 0])),
+  }));
+  const inflation = report.channels.map((row) => {
+    const none = row.points[0]?.attributedConversions ?? 0;
+    const longest = row.points[row.points.length - 1]?.attributedConversions ?? 0;
+    return { ...row, none, longest, lift: longest / Math.max(none, 1e-9) - 1 };
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-[minmax(0,1.3fr)_minmax(0,1fr)]">
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--muted))" vertical={false} />
+              <XAxis dataKey="viewDays" tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <YAxis tick={{ fontSize: 11 }} tickLine={false} axisLine={false} />
+              <RechartsTooltip
+                contentStyle={{ fontSize: 11 }}
+                formatter={(value: number, name: string) => [`${numberFormatter.format(value)} conv.`, name]}
+              />
+              <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+              {channels.map((ch) => (
+                <Line
+                  key={ch.name}
+                  type="monotone"
+                  dataKey={ch.name}
+                  name={ch.label}
+                  stroke={ch.color}
+                  strokeWidth={2}
+                  dot={{ r: 2 }}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[34%]">Channel</TableHead>
+              <TableHead className="text-right">No views</TableHead>
+              <TableHead className="text-right">{`${VIEW_WINDOW_STEPS[VIEW_WINDOW_STEPS.length - 1]}d view`}</TableHead>
+              <TableHead className="text-right">Inflation</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {inflation.map((row) => (
+              <TableRow key={row.channel}>
+                <TableCell className="font-medium">
+                  {channels.find((ch) => ch.name === row.channel)?.label ?? row.channel}
+                </TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.none)}</TableCell>
+                <TableCell className="text-right">{numberFormatter.format(row.longest)}</TableCell>
+                <TableCell className="text-right">{`+${percentFormatter.format(Math.max(row.lift, 0))}`}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-[11px] text-muted-foreground">
+        Attributed conversions as one channel&apos;s view window widens, with every other setting held and journeys
+        credited by the {MODEL_LABELS[report.model]} model. Views never cause a conversion here, so a longer window
+        only moves credit: prospecting channels like Meta and LinkedIn are seen far more often than they are clicked,
+        and gain the most.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import { calendarEffects } from "./calendar";
+import { WEEKS_PER_MONTH } from "./constants";
+import { saturationPenalty } from "./response";
+import { modelChannelEconomics } from "./economics";
+import type { AdstockParams, AdstockType, Channel, SimulationInput, SpendFlight } from "./types";
+
+/** Carry-over is truncated after this many weeks. */
+export const ADSTOCK_MAX_LAG = 12;
+
+/**
+ * Share of a week's spend effect that lands `lag` weeks later, for lags 0..ADSTOCK_MAX_LAG. Weights sum to 1,
+ * so adstock shifts when spend works without changing how much it does.
+ *
+ * Geometric retains `decay` of the effect each week. Weibull uses the survival curve exp(-(lag / λ)^shape) with
+ * λ = -1 / ln(decay), which matches geometric at shape 1; shapes above 1 hold the effect longer before it
+ * drops, shapes below 1 front-load it with a longer tail.
+ */
+export function adstockWeights(type: AdstockType, params: AdstockParams): number[] {
+  const decay = Math.min(Math.max(params.decay, 0), 0.99);
+  const raw = Array.from({ length: ADSTOCK_MAX_LAG + 1 }, (_, lag) => {
+    if (decay === 0) return lag === 0 ? 1 : 0;
+    if (type === "geometric") return Math.pow(decay, lag);
+    const scale = -1 / Math.log(decay);
+    return Math.exp(-Math.pow(lag / scale, Math.max(params.shape, 0.1)));
+  });
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return raw.map((w) => w / total);
+}
+
+/**
+ * Convolves a weekly series with adstock weights. Weeks before the series starts are assumed to run at
+ * `history` (steady-state spend), so an unchanged plan maps to itself.
+ */
+export function applyAdstock(series: number[], weights: number[], history = series[0] ?? 0): number[] {
+  return series.map((_, t) =>
+    weights.reduce((sum, w, lag) => sum + w * (t - lag >= 0 ? series[t - lag] : history), 0),
+  );
+}
+
+/** Weekly spend per channel: the monthly plan spread evenly, with any flights applied on top. */
+export function weeklySpendPlan(input: SimulationInput, weeks: number): Record<Channel, number[]> {
+  const flights: SpendFlight[] = input.flights ?? [];
+  return input.channels.reduce<Record<Channel, number[]>>((acc, ch) => {
+    const planned = (input.spend[ch.name] ?? 0) / WEEKS_PER_MONTH;
+    acc[ch.name] = Array.from({ length: weeks }, (_, idx) => {
+      const week = idx + 1;
+      const change = flights
+        .filter((f) => f.channel === ch.name && week >= f.startWeek && week < f.startWeek + f.weeks)
+        .reduce((sum, f) => sum + f.change, 0);
+      return Math.max(0, planned * (1 + change));
+    });
+    return acc;
+  }, {});
+}
+
+export interface WeeklyMediaResponse {
+  weeks: number;
+  spend: Record<Channel, number[]>;
+  /** Weekly spend per channel before flights. */
+  plannedSpend: Record<Channel, number>;
+  /** Modeled conversions per channel and week after carry-over, saturation and the marketing calendar. */
+  conversions: Record<Channel, number[]>;
+  /** Conversions per channel in a steady week at planned spend. */
+  steadyConversions: Record<Channel, number>;
+}
+
+/**
+ * Weekly conversions each channel drives when its (possibly flighted) spend is carried over by adstock, scaled by
+ * the week's seasonal demand and events.
+ */
+export function weeklyMediaResponse(input: SimulationInput, weeks: number): WeeklyMediaResponse {
+  const type = input.adstockType ?? "geometric";
+  const spend = weeklySpendPlan(input, weeks);
+  const calendar = calendarEffects(input, weeks);
+  const economics = modelChannelEconomics(input);
+  const plannedSpend: Record<Channel, number> = {};
+  const conversions: Record<Channel, number[]> = {};
+  const steadyConversions: Record<Channel, number> = {};
+
+  input.channels.forEach((ch) => {
+    // Saturated response of weekly spend, relative to which planned spend yields the channel's modeled conversions.
+    const response = (weekly: number) => weekly * saturationPenalty(ch.saturation, weekly * WEEKS_PER_MONTH);
+    const planned = (input.spend[ch.name] ?? 0) / WEEKS_PER_MONTH;
+    const steady = (economics.find((e) => e.channel === ch.name)?.conversions ?? 0) / WEEKS_PER_MONTH;
+    const plannedResponse = response(planned) || 1;
+    const adstocked = applyAdstock(spend[ch.name], adstockWeights(type, ch.adstock), planned);
+
+    plannedSpend[ch.name] = planned;
+    steadyConversions[ch.name] = steady;
+    conversions[ch.name] = adstocked.map(
+      (value, t) => ((steady * response(value)) / plannedResponse) * calendar.response[ch.name][t],
+    );
+  });
+
+  return { weeks, spend, plannedSpend, conversions, steadyConversions };
+}
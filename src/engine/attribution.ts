@@ -0,0 +1,107 @@
+import { byChannel } from "./channels";
+import type {
+  AttributionModel,
+  Channel,
+  ConversionWindow,
+  Journey,
+  SimulationInput,
+  Touchpoint,
+  TouchWindows,
+} from "./types";
+
+export type RuleBasedModel = "last_click" | "position_based" | "time_decay";
+
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+
+export function isRuleBasedModel(model: AttributionModel): model is RuleBasedModel {
+  return model === "last_click" || model === "position_based" || model === "time_decay";
+}
+
+/** One conversion window for clicks on every channel (views never count), or click and view windows per channel. */
+export type AttributionWindows = ConversionWindow | Record<Channel, TouchWindows>;
+
+/** Each channel's click and view windows: its own, or clicks within the scenario's window and no views. */
+export function touchWindows(
+  input: Pick<SimulationInput, "channels" | "window" | "touchWindows">,
+): Record<Channel, TouchWindows> {
+  return byChannel(input.channels, (ch) => input.touchWindows?.[ch.name] ?? { clickDays: input.window, viewDays: 0 });
+}
+
+/** Days before the conversion within which a touch can be credited; 0 credits none. */
+export function windowDays(windows: AttributionWindows, tp: Touchpoint): number {
+  if (typeof windows === "number") return tp.type === "click" ? windows : 0;
+  const channel = windows[tp.channel];
+  if (!channel) return 0;
+  return tp.type === "click" ? channel.clickDays : channel.viewDays;
+}
+
+/** Whether a touch falls inside its window of `end`. Views need a window of at least a day. */
+function inWindow(windows: AttributionWindows, tp: Touchpoint, end: number): boolean {
+  const days = windowDays(windows, tp);
+  return (tp.type === "click" || days > 0) && end - tp.timestamp <= days;
+}
+
+/** Tracked touches that fall inside their conversion window, in path order. */
+export function eligibleTouchpoints(journey: Journey, windows: AttributionWindows): Touchpoint[] {
+  if (!journey.converted || journey.conversionTime === null) return [];
+  return journey.touchpoints.filter((tp) => tp.tracked && inWindow(windows, tp, journey.conversionTime!));
+}
+
+/**
+ * Observed channel sequence for a journey: eligible touches when it converted, otherwise all tracked clicks and
+ * the tracked views inside their window of the last click.
+ */
+export function observedPath(journey: Journey, windows: AttributionWindows): Channel[] {
+  const end = journey.touchpoints.reduce((last, tp) => (tp.type === "click" ? Math.max(last, tp.timestamp) : last), 0);
+  const touches = journey.converted
+    ? eligibleTouchpoints(journey, windows)
+    : journey.touchpoints.filter((tp) => tp.tracked && (tp.type === "click" || inWindow(windows, tp, end)));
+  return touches.map((tp) => tp.channel);
+}
+
+/** Splits one conversion across the touches of a path. The returned weights sum to 1 (or 0 for no touches). */
+export function touchpointWeights(touches: Touchpoint[], conversionTime: number, model: RuleBasedModel): number[] {
+  const n = touches.length;
+  if (n === 0) return [];
+
+  switch (model) {
+    case "last_click":
+      return touches.map((_, idx) => (idx === n - 1 ? 1 : 0));
+    case "position_based": {
+      if (n === 1) return [1];
+      if (n === 2) return [0.5, 0.5];
+      const middle = 0.2 / (n - 2);
+      return touches.map((_, idx) => (idx === 0 || idx === n - 1 ? 0.4 : middle));
+    }
+    case "time_decay": {
+      const raw = touches.map((tp) => Math.pow(0.5, (conversionTime - tp.timestamp) / TIME_DECAY_HALF_LIFE_DAYS));
+      const total = raw.reduce((sum, w) => sum + w, 0);
+      return raw.map((w) => w / total);
+    }
+  }
+}
+
+/**
+ * Walks every converted path and assigns credit with the given rule. Returns credited conversions per
+ * channel; conversions with no eligible touch stay unattributed, so the total can be below the number of
+ * converted journeys. Last click only credits a view when the path has no eligible click.
+ */
+export function attributeJourneys(
+  journeys: Journey[],
+  model: RuleBasedModel,
+  windows: AttributionWindows,
+): Record<Channel, number> {
+  const credit: Record<Channel, number> = {};
+
+  journeys.forEach((journey) => {
+    const eligible = eligibleTouchpoints(journey, windows);
+    const clicks = eligible.filter((tp) => tp.type === "click");
+    const touches = model === "last_click" && clicks.length ? clicks : eligible;
+    const weights = touchpointWeights(touches, journey.conversionTime ?? 0, model);
+    touches.forEach((tp, idx) => {
+      credit[tp.channel] = (credit[tp.channel] ?? 0) + weights[idx];
+    });
+  });
+
+  return credit;
+}
@@ -0,0 +1,101 @@
+import { modelChannelEconomics } from "./economics";
+import { stageVolume } from "./funnel";
+import { haloFlows, haloOut } from "./halo";
+import type {
+  AttributionModel,
+  BaselineDemand,
+  Channel,
+  ChannelOutput,
+  ContributionBreakdown,
+  ContributionRow,
+  SimulationInput,
+} from "./types";
+
+/** Organic demand when the scenario does not set its own. */
+export const DEFAULT_BASELINE: BaselineDemand = {
+  organicConversions: 400,
+  brandedSearchShare: 0.35,
+};
+
+export interface BaselineConversions {
+  /** Organic and direct conversions that never touch a paid channel. */
+  organic: number;
+  /** Baseline conversions captured by each brand-search channel. */
+  branded: Record<Channel, number>;
+}
+
+/**
+ * Splits the scenario's organic demand into conversions that arrive organically and ones captured by brand-search
+ * ads. Branded conversions are shared between the channels that bid on the brand in proportion to their spend;
+ * with no such channel running, all of the demand stays organic. Organic demand is counted in closed-won deals and
+ * scaled to the scenario's funnel stage at the default stage rates.
+ */
+export function baselineConversions(input: SimulationInput): BaselineConversions {
+  const { organicConversions, brandedSearchShare } = input.baseline ?? DEFAULT_BASELINE;
+  const total = Math.max(organicConversions, 0) * stageVolume(input);
+  const bidding = input.channels.filter((ch) => ch.brandSearch && (input.spend[ch.name] ?? 0) > 0);
+  const biddingSpend = bidding.reduce((sum, ch) => sum + (input.spend[ch.name] ?? 0), 0);
+  const captured = biddingSpend > 0 ? total * Math.min(Math.max(brandedSearchShare, 0), 1) : 0;
+
+  return {
+    organic: total - captured,
+    branded: bidding.reduce<Record<Channel, number>>((acc, ch) => {
+      acc[ch.name] = (captured * (input.spend[ch.name] ?? 0)) / biddingSpend;
+      return acc;
+    }, {}),
+  };
+}
+
+/**
+ * Whether a model credits branded conversions to the search ad. Journey-based models see the branded click as the
+ * converting touch; an MMM sees conversions that do not move with spend as baseline.
+ */
+export function creditsBrandedSearch(model: AttributionModel): boolean {
+  return model !== "bayesian_mmm";
+}
+
+/**
+ * Splits total conversions by where they really come from and by where the scenario's model puts them. What a
+ * model credits to a channel is its attributed conversions, or the incremental estimate for Bayesian MMM (the same
+ * reading as ground-truth scoring); whatever it does not credit to paid media or organic demand falls to the
+ * branded-search or harvested rows, so both columns sum to the same total unless a model credits paid media with
+ * more conversions than exist.
+ */
+export function buildContributions(input: SimulationInput, outputs: ChannelOutput[]): ContributionBreakdown {
+  const economics = modelChannelEconomics(input);
+  const { organic, branded } = baselineConversions(input);
+  const brandedTotal = Object.values(branded).reduce((sum, v) => sum + v, 0);
+  const flows = haloFlows(input);
+  const halo = haloOut(flows);
+  const paidTotal =
+    economics.reduce((sum, e) => sum + e.conversions, 0) + flows.reduce((sum, flow) => sum + flow.conversions, 0);
+  const totalConversions = organic + brandedTotal + paidTotal;
+
+  const paid: ContributionRow[] = economics.map((e) => {
+    const output = outputs.find((o) => o.channel === e.channel);
+    return {
+      source: "paid",
+      channel: e.channel,
+      trueConversions: e.incrementalConversions + (halo[e.channel] ?? 0),
+      creditedConversions:
+        input.model === "bayesian_mmm" ? (output?.incrementalConversions ?? 0) : (output?.attributedConversions ?? 0),
+    };
+  });
+  const trueIncremental = paid.reduce((sum, row) => sum + row.trueConversions, 0);
+  const creditedPaid = paid.reduce((sum, row) => sum + row.creditedConversions, 0);
+  const brandedCredited = creditsBrandedSearch(input.model) ? 0 : brandedTotal;
+
+  return {
+    totalConversions,
+    rows: [
+      { source: "organic", trueConversions: organic, creditedConversions: organic },
+      { source: "branded_search", trueConversions: brandedTotal, creditedConversions: brandedCredited },
+      {
+        source: "harvested",
+        trueConversions: paidTotal - trueIncremental,
+        creditedConversions: Math.max(0, totalConversions - organic - brandedCredited - creditedPaid),
+      },
+      ...paid,
+    ],
+  };
+}
@@ -0,0 +1,164 @@
+import { channelResponse } from "./curves";
+import { modelChannelEconomics } from "./economics";
+import { stageValue } from "./funnel";
+import { haloFlows, haloOut } from "./halo";
+import type {
+  BudgetConstraints,
+  BudgetPlan,
+  BudgetPlanRow,
+  Channel,
+  ChannelOutput,
+  OptimizationObjective,
+  SimulationInput,
+} from "./types";
+
+/** The budget still to place is handed out in this many increments. */
+const ALLOCATION_STEPS = 400;
+
+/**
+ * Value the optimiser maximises for a channel at a given monthly spend. Each channel's response curve is anchored
+ * to the model's incremental conversions at current spend (the MMM posterior's contribution, or the structural
+ * estimate with any halo and lift-test calibration), never to the conversions a model attributes, so a model that
+ * over-credits a channel cannot pull budget towards it. The click-based models therefore all share one plan.
+ */
+function objectiveResponse(
+  input: SimulationInput,
+  outputs: ChannelOutput[],
+  objective: OptimizationObjective,
+): ((spend: number) => number)[] {
+  return input.channels.map((definition) => {
+    const anchor = outputs.find((o) => o.channel === definition.name)?.incrementalConversions;
+    const response = channelResponse(input, definition, anchor);
+    const value = stageValue(input, definition.name);
+    return objective === "revenue" ? (spend) => response(spend) * value : response;
+  });
+}
+
+/**
+ * Objective value per month of a whole plan, re-evaluated by the engine rather than read off the optimiser's
+ * curves: `modelChannelEconomics` and the halo flows at the planned spend, with each channel scaled by how far the
+ * model's incremental estimate at current spend sits from the structural one. At current spend it adds up to the
+ * outputs' incremental conversions (or revenue).
+ */
+function planValue(
+  input: SimulationInput,
+  outputs: ChannelOutput[],
+  objective: OptimizationObjective,
+): (spend: number[]) => number {
+  const structural = (spend: Record<Channel, number>) => {
+    const planned = { ...input, spend };
+    const halo = haloOut(haloFlows(planned));
+    return modelChannelEconomics(planned).map((e) => e.incrementalConversions + (halo[e.channel] ?? 0));
+  };
+  const scale = structural(input.spend).map((atCurrent, idx) => {
+    const estimate = outputs.find((o) => o.channel === input.channels[idx].name)?.incrementalConversions;
+    return estimate !== undefined && atCurrent > 0 ? estimate / atCurrent : 1;
+  });
+  const value = input.channels.map((ch) => (objective === "revenue" ? stageValue(input, ch.name) : 1));
+
+  return (spend) => {
+    const planned = input.channels.reduce<Record<Channel, number>>((acc, ch, idx) => {
+      acc[ch.name] = spend[idx];
+      return acc;
+    }, {});
+    return structural(planned).reduce((sum, conversions, idx) => sum + conversions * scale[idx] * value[idx], 0);
+  };
+}
+
+/**
+ * Reallocates the scenario's budget to maximise incremental conversions (or revenue) under the scenario's budget
+ * constraints: a total budget, each channel's min/max spend, a maximum week-over-week change from current spend and
+ * locked channels that keep their current spend. Budget is placed greedily in small increments on the channel with
+ * the highest marginal return, which is optimal for concave response curves (Hill slope up to 1). An S-shaped
+ * curve (slope above 1) returns little on a single increment below its inflection point, so for those channels
+ * runs of increments are also tried and placed at once when their average return is the best on offer. That gets
+ * past the convex stretch but is a heuristic there, not a guaranteed optimum.
+ *
+ * When the constraints cannot all be met (e.g. the minimums exceed the budget) the plan is marked infeasible and
+ * every channel sits at the closest bound.
+ */
+export function optimizeBudget(input: SimulationInput, outputs: ChannelOutput[]): BudgetPlan {
+  const constraints: BudgetConstraints = input.budget ?? {};
+  const objective = constraints.objective ?? "conversions";
+  const locked = new Set(constraints.locked ?? []);
+  const maxWeeklyChange = constraints.maxWeeklyChange;
+
+  const before = input.channels.map((ch) => input.spend[ch.name] ?? 0);
+  const currentTotal = before.reduce((sum, v) => sum + v, 0);
+  const totalBudget = constraints.totalBudget ?? currentTotal;
+  const response = objectiveResponse(input, outputs, objective);
+
+  const bounds = input.channels.map((ch, idx) => {
+    if (locked.has(ch.name)) return { min: before[idx], max: before[idx] };
+    let min = constraints.minSpend?.[ch.name] ?? ch.minSpend;
+    let max = constraints.maxSpend?.[ch.name] ?? ch.maxSpend;
+    if (maxWeeklyChange !== undefined) {
+      min = Math.max(min, before[idx] * (1 - maxWeeklyChange));
+      max = Math.min(max, before[idx] * (1 + maxWeeklyChange));
+    }
+    return { min, max: Math.max(min, max) };
+  });
+
+  const after = bounds.map((b) => b.min);
+  const floor = after.reduce((sum, v) => sum + v, 0);
+  const ceiling = bounds.reduce((sum, b) => sum + b.max, 0);
+  const feasible = floor <= totalBudget + 1e-6 && ceiling >= totalBudget - 1e-6;
+
+  const remaining = Math.max(0, Math.min(totalBudget, ceiling) - floor);
+  const step = remaining / ALLOCATION_STEPS;
+  const sShaped = input.channels.map((ch) => ch.saturation.slope > 1);
+  let placed = 0;
+  while (step > 0 && placed < ALLOCATION_STEPS) {
+    let best = -1;
+    let bestGain = -Infinity;
+    let bestSteps = 1;
+    after.forEach((spend, idx) => {
+      const increment = Math.min(step, bounds[idx].max - spend);
+      if (increment <= 0) return;
+      const base = response[idx](spend);
+      const consider = (steps: number, amount: number) => {
+        const gain = (response[idx](spend + amount) - base) / amount;
+        if (gain > bestGain) {
+          bestGain = gain;
+          best = idx;
+          bestSteps = steps;
+        }
+      };
+      consider(1, increment);
+      if (!sShaped[idx]) return;
+      const room = Math.min(ALLOCATION_STEPS - placed, Math.floor((bounds[idx].max - spend) / step));
+      for (let steps = 2; steps < room; steps *= 2) consider(steps, steps * step);
+      if (room > 1) consider(room, room * step);
+    });
+    if (best < 0) break;
+    after[best] = Math.min(bounds[best].max, after[best] + bestSteps * step);
+    placed += bestSteps;
+  }
+
+  const rows: BudgetPlanRow[] = input.channels.map((ch, idx) => ({
+    channel: ch.name,
+    before: before[idx],
+    after: after[idx],
+    min: bounds[idx].min,
+    max: bounds[idx].max,
+    locked: locked.has(ch.name),
+  }));
+
+  const evaluate = planValue(input, outputs, objective);
+  const beforeValue = evaluate(before);
+  const afterValue = evaluate(after);
+  const afterTotal = after.reduce((sum, v) => sum + v, 0);
+  const efficiencyBefore = beforeValue / Math.max(currentTotal, 1);
+  const efficiencyAfter = afterValue / Math.max(afterTotal, 1);
+
+  return {
+    objective,
+    feasible,
+    totalBudget,
+    rows,
+    beforeValue,
+    afterValue,
+    efficiencyGain: efficiencyBefore > 0 ? efficiencyAfter / efficiencyBefore - 1 : 0,
+    reallocated: rows.reduce((sum, row) => sum + Math.max(0, row.before - row.after), 0),
+  };
+}
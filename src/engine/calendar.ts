@@ -0,0 +1,220 @@
+import type {
+  CalendarAnnotation,
+  CalendarEvent,
+  CalendarWeek,
+  Channel,
+  FourierTerm,
+  MarketingCalendar,
+  Seasonality,
+  SimulationInput,
+} from "./types";
+
+export const WEEKS_PER_YEAR = 52;
+
+export const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** Seasonal demand at least this far from an average week is marked as a peak or low season. */
+const SEASON_THRESHOLD = 0.05;
+
+/** B2B SaaS demand by month: quarter-end pushes, a summer lull and a December budget flush. */
+export const B2B_MONTHLY_SEASONALITY = [0.96, 1.0, 1.1, 0.97, 1.0, 1.08, 0.86, 0.84, 1.04, 1.02, 1.04, 1.06];
+
+/** A smooth version of the same shape: a yearly cycle low in summer and a quarterly cycle peaking at quarter end. */
+export const B2B_FOURIER_SEASONALITY: FourierTerm[] = [
+  { harmonic: 1, amplitude: 0.08, peakWeek: 3 },
+  { harmonic: 4, amplitude: 0.05, peakWeek: 13 },
+];
+
+export const B2B_CALENDAR_EVENTS: CalendarEvent[] = [
+  {
+    id: "new-year",
+    name: "New Year",
+    kind: "holiday",
+    startWeek: 1,
+    weeks: 1,
+    demandChange: -0.25,
+    responseChange: -0.1,
+  },
+  {
+    id: "conference",
+    name: "Annual conference",
+    kind: "event",
+    startWeek: 38,
+    weeks: 1,
+    demandChange: 0.1,
+    responseChange: 0.15,
+  },
+  {
+    id: "thanksgiving",
+    name: "Thanksgiving",
+    kind: "holiday",
+    startWeek: 47,
+    weeks: 1,
+    demandChange: -0.3,
+    responseChange: -0.1,
+  },
+  {
+    id: "cyber-week",
+    name: "Cyber Week promo",
+    kind: "promo",
+    startWeek: 48,
+    weeks: 1,
+    demandChange: 0.08,
+    responseChange: 0.25,
+  },
+  {
+    id: "holidays",
+    name: "Holidays",
+    kind: "holiday",
+    startWeek: 52,
+    weeks: 1,
+    demandChange: -0.4,
+    responseChange: -0.2,
+  },
+];
+
+/** A B2B SaaS calendar whose series starts mid-October, so it runs through Q4 and the holidays. */
+export function defaultCalendar(): MarketingCalendar {
+  return {
+    startWeek: 42,
+    seasonality: { mode: "monthly", monthly: [...B2B_MONTHLY_SEASONALITY] },
+    events: B2B_CALENDAR_EVENTS.map((event) => ({ ...event })),
+  };
+}
+
+const wrapWeek = (week: number) => ((((week - 1) % WEEKS_PER_YEAR) + WEEKS_PER_YEAR) % WEEKS_PER_YEAR) + 1;
+
+/** Week of the year that 0-based series week `idx` falls in; negative indexes count back before the series. */
+export function weekOfYear(calendar: MarketingCalendar, idx: number): number {
+  return wrapWeek(calendar.startWeek + idx);
+}
+
+export function monthOfWeek(week: number): number {
+  return Math.min(11, Math.floor(((wrapWeek(week) - 1) * 12) / WEEKS_PER_YEAR));
+}
+
+/** Seasonal demand multiplier for a week of the year; 1 is an average week. */
+export function seasonalIndex(seasonality: Seasonality, week: number): number {
+  if (seasonality.mode === "monthly") return Math.max(0, seasonality.monthly?.[monthOfWeek(week)] ?? 1);
+  if (seasonality.mode === "fourier") {
+    const swing = (seasonality.fourier ?? []).reduce(
+      (sum, term) =>
+        sum + term.amplitude * Math.cos((2 * Math.PI * term.harmonic * (week - term.peakWeek)) / WEEKS_PER_YEAR),
+      0,
+    );
+    return Math.max(0, 1 + swing);
+  }
+  return 1;
+}
+
+/** Events covering a week of the year, including ones that run over the year end. */
+export function activeEvents(calendar: MarketingCalendar, week: number): CalendarEvent[] {
+  return calendar.events.filter((event) => {
+    const offset = (((week - event.startWeek) % WEEKS_PER_YEAR) + WEEKS_PER_YEAR) % WEEKS_PER_YEAR;
+    return offset < Math.max(event.weeks, 0);
+  });
+}
+
+export interface CalendarEffects {
+  /** Weekly multiplier on baseline demand. */
+  demand: number[];
+  /** Weekly multiplier on each channel's media response: the demand multiplier times any event response change. */
+  response: Record<Channel, number[]>;
+}
+
+/**
+ * Demand and media-response multipliers for `weeks` weeks starting `offset` weeks after the series starts (a
+ * negative offset reaches back into history). Every multiplier is 1 when the scenario has no calendar.
+ */
+export function calendarEffects(input: SimulationInput, weeks: number, offset = 0): CalendarEffects {
+  const { calendar } = input;
+  const demand = Array.from({ length: weeks }, (_, idx) => {
+    if (!calendar) return 1;
+    const week = weekOfYear(calendar, idx + offset);
+    const events = activeEvents(calendar, week);
+    return events.reduce(
+      (value, event) => value * Math.max(0, 1 + event.demandChange),
+      seasonalIndex(calendar.seasonality, week),
+    );
+  });
+
+  const response = input.channels.reduce<Record<Channel, number[]>>((acc, ch) => {
+    acc[ch.name] = demand.map((value, idx) => {
+      if (!calendar) return value;
+      return activeEvents(calendar, weekOfYear(calendar, idx + offset))
+        .filter((event) => !event.channels || event.channels.includes(ch.name))
+        .reduce((multiplier, event) => multiplier * Math.max(0, 1 + (event.responseChange ?? 0)), value);
+    });
+    return acc;
+  }, {});
+
+  return { demand, response };
+}
+
+/** The series' weeks on the calendar, or an empty list when the scenario has none. */
+export function buildCalendar(input: SimulationInput, weeks: number): CalendarWeek[] {
+  const { calendar } = input;
+  if (!calendar) return [];
+  const { demand } = calendarEffects(input, weeks);
+  return demand.map((value, idx) => {
+    const week = weekOfYear(calendar, idx);
+    return {
+      week: `W${idx + 1}`,
+      weekOfYear: week,
+      month: MONTH_LABELS[monthOfWeek(week)],
+      demand: value,
+      events: activeEvents(calendar, week).map((event) => event.name),
+    };
+  });
+}
+
+/**
+ * Ranges of series weeks to annotate: one per event, plus runs of weeks whose seasonal demand (before events) sits
+ * at least SEASON_THRESHOLD above or below an average week.
+ */
+export function calendarAnnotations(input: SimulationInput, weeks: number): CalendarAnnotation[] {
+  const { calendar } = input;
+  if (!calendar) return [];
+  const label = (idx: number) => `W${idx + 1}`;
+  const annotations: CalendarAnnotation[] = [];
+
+  const season = (idx: number) => {
+    const swing = seasonalIndex(calendar.seasonality, weekOfYear(calendar, idx)) - 1;
+    return swing >= SEASON_THRESHOLD ? "peak_season" : swing <= -SEASON_THRESHOLD ? "low_season" : null;
+  };
+  let start = 0;
+  while (start < weeks) {
+    const kind = season(start);
+    let end = start;
+    while (end + 1 < weeks && season(end + 1) === kind) end++;
+    if (kind) {
+      const first = MONTH_LABELS[monthOfWeek(weekOfYear(calendar, start))];
+      const last = MONTH_LABELS[monthOfWeek(weekOfYear(calendar, end))];
+      annotations.push({
+        id: `season-${label(start)}`,
+        label: `${kind === "peak_season" ? "Peak" : "Low"} season (${first === last ? first : `${first}–${last}`})`,
+        kind,
+        x1: label(start),
+        x2: label(end),
+      });
+    }
+    start = end + 1;
+  }
+
+  calendar.events.forEach((event) => {
+    const covered = Array.from({ length: weeks }, (_, idx) => idx).filter(
+      (idx) => activeEvents({ ...calendar, events: [event] }, weekOfYear(calendar, idx)).length > 0,
+    );
+    if (covered.length) {
+      annotations.push({
+        id: event.id,
+        label: event.name,
+        kind: event.kind,
+        x1: label(covered[0]),
+        x2: label(covered[covered.length - 1]),
+      });
+    }
+  });
+
+  return annotations;
+}
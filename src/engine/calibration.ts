@@ -0,0 +1,49 @@
+import { channelResponse } from "./curves";
+import { stageValue } from "./funnel";
+import type { Channel, LiftTestConfidence, MmmPrior, SimulationInput } from "./types";
+
+/** Half-width of a normal confidence interval, in standard deviations. */
+const CONFIDENCE_Z: Record<LiftTestConfidence, number> = {
+  0.8: 1.2816,
+  0.9: 1.645,
+  0.95: 1.96,
+};
+
+/**
+ * Each lift-test result as a normal belief about the channel's monthly incremental conversions at the scenario's
+ * current spend. iROAS results are converted at the spend the test ran at and the channel's revenue per
+ * conversion, and a test run at a different spend is carried over along the channel's saturation curve. The
+ * interval is assumed symmetric; its half-width sets the sd.
+ */
+export function liftTestPriors(input: SimulationInput): Record<Channel, MmmPrior> {
+  return (input.calibration ?? []).reduce<Record<Channel, MmmPrior>>((acc, result) => {
+    const definition = input.channels.find((ch) => ch.name === result.channel);
+    if (!definition) return acc;
+
+    const currentSpend = input.spend[definition.name] ?? 0;
+    const testSpend = result.spend ?? currentSpend;
+    const toConversions = (value: number) =>
+      result.metric === "iroas" ? (value * testSpend) / Math.max(stageValue(input, definition.name), 1) : value;
+    const response = channelResponse(input, definition);
+    const atTest = response(testSpend);
+    const scale = atTest > 0 ? response(currentSpend) / atTest : 1;
+    const z = CONFIDENCE_Z[result.confidence ?? 0.9];
+
+    acc[definition.name] = {
+      mean: Math.max(0, toConversions(result.estimate) * scale),
+      sd: Math.max((toConversions(result.high) - toConversions(result.low)) / (2 * z), 1e-6) * scale,
+    };
+    return acc;
+  }, {});
+}
+
+/** Precision-weighted combination of a model's estimate and a lift test, both as normal beliefs. */
+export function calibrateEstimate(estimate: MmmPrior, test: MmmPrior): MmmPrior {
+  const modelPrecision = 1 / Math.max(estimate.sd, 1e-9) ** 2;
+  const testPrecision = 1 / Math.max(test.sd, 1e-9) ** 2;
+  const precision = modelPrecision + testPrecision;
+  return {
+    mean: (estimate.mean * modelPrecision + test.mean * testPrecision) / precision,
+    sd: 1 / Math.sqrt(precision),
+  };
+}
@@ -0,0 +1,145 @@
+import type { Channel, ChannelDefinition } from "./types";
+
+/**
+ * Every channel the simulator knows how to model. A scenario picks any subset of these (or its own
+ * definitions) through `Scenario.channels`.
+ */
+export const CHANNEL_REGISTRY: ChannelDefinition[] = [
+  {
+    name: "Meta",
+    label: "Meta Ads",
+    color: "hsl(var(--primary))",
+    efficiency: 3.2,
+    prospecting: 0.45,
+    retargeting: 0.2,
+    defaultSpend: 120000,
+    minSpend: 20000,
+    maxSpend: 250000,
+    adstock: { decay: 0.4, shape: 1 },
+    saturation: { halfSaturation: 300000, slope: 1 },
+  },
+  {
+    name: "Google Search",
+    label: "Google Search",
+    color: "hsl(var(--accent))",
+    efficiency: 4.0,
+    prospecting: 0.2,
+    retargeting: 0.35,
+    defaultSpend: 90000,
+    minSpend: 20000,
+    maxSpend: 250000,
+    adstock: { decay: 0.15, shape: 1 },
+    saturation: { halfSaturation: 225000, slope: 1 },
+    brandSearch: true,
+  },
+  {
+    name: "LinkedIn",
+    label: "LinkedIn Ads",
+    color: "hsl(var(--muted-foreground))",
+    efficiency: 2.4,
+    prospecting: 0.7,
+    retargeting: 0.1,
+    defaultSpend: 60000,
+    minSpend: 15000,
+    maxSpend: 200000,
+    adstock: { decay: 0.6, shape: 1.5 },
+    saturation: { halfSaturation: 150000, slope: 1 },
+  },
+  {
+    name: "YouTube",
+    label: "YouTube",
+    color: "hsl(0 55% 52%)",
+    efficiency: 2.1,
+    prospecting: 0.65,
+    retargeting: 0.1,
+    defaultSpend: 40000,
+    minSpend: 5000,
+    maxSpend: 150000,
+    adstock: { decay: 0.55, shape: 1.2 },
+    saturation: { halfSaturation: 100000, slope: 1 },
+  },
+  {
+    name: "TikTok",
+    label: "TikTok Ads",
+    color: "hsl(180 45% 40%)",
+    efficiency: 1.8,
+    prospecting: 0.6,
+    retargeting: 0.12,
+    defaultSpend: 25000,
+    minSpend: 5000,
+    maxSpend: 120000,
+    adstock: { decay: 0.35, shape: 1 },
+    saturation: { halfSaturation: 62500, slope: 1 },
+  },
+  {
+    name: "Microsoft Ads",
+    label: "Microsoft Ads",
+    color: "hsl(205 60% 45%)",
+    efficiency: 3.6,
+    prospecting: 0.18,
+    retargeting: 0.32,
+    defaultSpend: 20000,
+    minSpend: 5000,
+    maxSpend: 100000,
+    adstock: { decay: 0.15, shape: 1 },
+    saturation: { halfSaturation: 50000, slope: 1 },
+    brandSearch: true,
+  },
+  {
+    name: "G2",
+    label: "G2 Reviews",
+    color: "hsl(15 70% 55%)",
+    efficiency: 3.0,
+    prospecting: 0.3,
+    retargeting: 0.3,
+    defaultSpend: 15000,
+    minSpend: 5000,
+    maxSpend: 80000,
+    adstock: { decay: 0.45, shape: 1.2 },
+    saturation: { halfSaturation: 37500, slope: 1 },
+  },
+  {
+    name: "Podcasts",
+    label: "Podcast sponsorships",
+    color: "hsl(265 35% 50%)",
+    efficiency: 1.6,
+    prospecting: 0.75,
+    retargeting: 0.05,
+    defaultSpend: 20000,
+    minSpend: 5000,
+    maxSpend: 100000,
+    adstock: { decay: 0.7, shape: 1.8 },
+    saturation: { halfSaturation: 50000, slope: 1 },
+  },
+  {
+    name: "Events",
+    label: "Events & field",
+    color: "hsl(140 30% 38%)",
+    efficiency: 2.2,
+    prospecting: 0.55,
+    retargeting: 0.15,
+    defaultSpend: 50000,
+    minSpend: 10000,
+    maxSpend: 200000,
+    adstock: { decay: 0.65, shape: 2 },
+    saturation: { halfSaturation: 125000, slope: 1 },
+  },
+];
+
+export const DEFAULT_CHANNELS: Channel[] = ["Meta", "Google Search", "LinkedIn"];
+
+export function getChannelDefinition(name: Channel): ChannelDefinition | undefined {
+  return CHANNEL_REGISTRY.find((definition) => definition.name === name);
+}
+
+export function defaultChannelDefinitions(): ChannelDefinition[] {
+  return DEFAULT_CHANNELS.map((name) => getChannelDefinition(name)!);
+}
+
+/** Builds a `Record<Channel, T>` for the given channels. */
+export function byChannel<T>(channels: ChannelDefinition[], value: (definition: ChannelDefinition) => T) {
+  return channels.reduce<Record<Channel, T>>((acc, definition) => {
+    acc[definition.name] = value(definition);
+    return acc;
+  }, {});
+}
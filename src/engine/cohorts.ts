@@ -0,0 +1,39 @@
+import type { CohortRow, ConversionWindow, NoiseLevel } from "./types";
+
+export function buildCohortTable(window: ConversionWindow, noise: NoiseLevel): CohortRow[] {
+  const baseCurve = window === 7 ? [0.55, 0.8, 0.95, 1] : window === 14 ? [0.35, 0.6, 0.8, 0.92, 0.98, 1] : [
+    0.18,
+    0.35,
+    0.55,
+    0.72,
+    0.85,
+    0.93,
+    0.97,
+    1,
+  ];
+
+  const noiseAdjust = noise === "low" ? 0.01 : noise === "medium" ? 0.03 : 0.06;
+
+  const rows: CohortRow[] = [];
+  let prev = 0;
+
+  baseCurve.forEach((cum, idx) => {
+    const adjustedCum = Math.max(0, Math.min(1, cum + (idx - baseCurve.length / 2) * noiseAdjust * 0.1));
+    const incremental = Math.max(0, adjustedCum - prev);
+    prev = adjustedCum;
+
+    rows.push({
+      bucket: idx === 0 ? "Week 0–1" : `Week ${idx}–${idx + 1}`,
+      cumulative: adjustedCum,
+      incremental,
+      note:
+        idx === 0
+          ? "Short-lag, lower-funnel dominated conversions."
+          : idx < 3
+            ? "Mix of retargeting and some prospecting-driven conversions."
+            : "Longer-lag, prospecting-heavy cohorts with higher modeled incremental lift.",
+    });
+  });
+
+  return rows;
+}
@@ -0,0 +1 @@
+export const WEEKS_PER_MONTH = 52 / 12;
@@ -0,0 +1,65 @@
+import { modelChannelEconomics } from "./economics";
+import { stageValue } from "./funnel";
+import type { ChannelDefinition, ChannelOutput, ResponseCurve, ResponseCurvePoint, SimulationInput } from "./types";
+
+/** Curves run from zero to this multiple of the channel's current spend. */
+export const RESPONSE_CURVE_RANGE = 3;
+
+export const RESPONSE_CURVE_POINTS = 31;
+
+/** Spend increment used for the "next dollars" marginal ROAS at current spend. */
+export const MARGINAL_SPEND_STEP = 10000;
+
+/**
+ * Incremental conversions per month as a function of a channel's monthly spend, on the channel's saturation curve.
+ * With an `anchor`, the curve is rescaled to pass through that many conversions at the scenario's current spend.
+ */
+export function channelResponse(
+  input: SimulationInput,
+  definition: ChannelDefinition,
+  anchor?: number,
+): (spend: number) => number {
+  const structural = (spend: number) =>
+    modelChannelEconomics({ ...input, channels: [definition], spend: { [definition.name]: spend } })[0]
+      .incrementalConversions;
+  const atCurrent = structural(input.spend[definition.name] ?? 0);
+  const scale = anchor !== undefined && atCurrent > 0 ? anchor / atCurrent : 1;
+  return (spend) => structural(spend) * scale;
+}
+
+/**
+ * Incremental revenue against monthly spend for each channel, from zero to RESPONSE_CURVE_RANGE times current
+ * spend, using the same saturation curve as `modelChannelEconomics`. Marginal ROAS at each point is the revenue
+ * from the next MARGINAL_SPEND_STEP dollars per dollar. When `outputs` carry a different incremental estimate
+ * (e.g. an MMM posterior), each curve is rescaled to pass through it at current spend.
+ */
+export function buildResponseCurves(
+  input: SimulationInput,
+  outputs: ChannelOutput[] = [],
+  points = RESPONSE_CURVE_POINTS,
+): ResponseCurve[] {
+  return input.channels.map((definition) => {
+    const currentSpend = input.spend[definition.name] ?? 0;
+    const estimate = outputs.find((o) => o.channel === definition.name);
+    const response = channelResponse(input, definition, estimate?.incrementalConversions);
+
+    const value = stageValue(input, definition.name);
+    const revenueAt = (spend: number) => response(spend) * value;
+    const marginalRoasAt = (spend: number) =>
+      (revenueAt(spend + MARGINAL_SPEND_STEP) - revenueAt(spend)) / MARGINAL_SPEND_STEP;
+
+    const maxSpend = Math.max(currentSpend, definition.minSpend) * RESPONSE_CURVE_RANGE;
+    const curve: ResponseCurvePoint[] = Array.from({ length: points }, (_, idx) => {
+      const spend = (maxSpend * idx) / Math.max(points - 1, 1);
+      return { spend, revenue: revenueAt(spend), marginalRoas: marginalRoasAt(spend) };
+    });
+
+    return {
+      channel: definition.name,
+      currentSpend,
+      currentRevenue: revenueAt(currentSpend),
+      marginalRoas: marginalRoasAt(currentSpend),
+      points: curve,
+    };
+  });
+}
@@ -0,0 +1,65 @@
+import { touchWindows } from "./attribution";
+import { stageVolume } from "./funnel";
+import { saturationPenalty } from "./response";
+import { dealValue } from "./revenue";
+import type { ChannelEconomics, SimulationInput } from "./types";
+
+/** Share of conversions a click window captures, at the window lengths it is known for; linear in between. */
+const CLICK_WINDOW_MULTIPLIERS: [days: number, multiplier: number][] = [
+  [1, 0.6],
+  [7, 0.8],
+  [14, 0.95],
+  [30, 1.1],
+];
+
+/** Multiplier on a channel's modeled conversions for a click window of `days`, held flat beyond the known points. */
+export function clickWindowMultiplier(days: number): number {
+  const points = CLICK_WINDOW_MULTIPLIERS;
+  if (days <= points[0][0]) return points[0][1];
+  for (let idx = 1; idx < points.length; idx++) {
+    const [hiDays, hi] = points[idx];
+    if (days <= hiDays) {
+      const [loDays, lo] = points[idx - 1];
+      return lo + ((hi - lo) * (days - loDays)) / (hiDays - loDays);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/**
+ * Modeled conversions and true incremental conversions per channel at the scenario's spend, before any
+ * attribution model has looked at them. Channel efficiencies are revenue per dollar, so a channel with larger deals
+ * books the same revenue from fewer conversions. Conversions are closed-won deals, scaled to the scenario's
+ * funnel stage when it has a funnel.
+ *
+ * The true incremental conversions are the hidden ground truth and depend only on the channel, its spend and the
+ * business (deal values, funnel): the click window and tracking noise are measurement settings, so they only change
+ * the modeled conversions a channel's reporting counts.
+ */
+export function modelChannelEconomics(input: SimulationInput): ChannelEconomics[] {
+  const windows = touchWindows(input);
+
+  return input.channels.map((definition) => {
+    const spend = input.spend[definition.name] ?? 0;
+
+    const trueROAS =
+      definition.efficiency *
+      saturationPenalty(definition.saturation, spend) *
+      (1 + (definition.prospecting - definition.retargeting) * 0.2);
+
+    const trueRevenue = spend * trueROAS;
+    const modeledRevenue = trueRevenue * clickWindowMultiplier(windows[definition.name].clickDays);
+
+    const incrementalShare = definition.prospecting * 0.6 + (1 - definition.retargeting) * 0.2 + 0.1;
+
+    const incrementalRevenue = trueRevenue * incrementalShare;
+    const value = Math.max(dealValue(input, definition.name), 1) / stageVolume(input, definition.name);
+
+    return {
+      channel: definition.name,
+      spend,
+      conversions: modeledRevenue / value,
+      incrementalConversions: incrementalRevenue / value,
+    };
+  });
+}
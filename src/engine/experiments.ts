@@ -0,0 +1,285 @@
+import { weeklyMediaResponse } from "./adstock";
+import { modelChannelEconomics } from "./economics";
+import { normal, quantile, scenarioRng, type Rng } from "./random";
+import { noiseFactor } from "./response";
+import type {
+  GeoExperiment,
+  GeoLiftPoint,
+  GeoLiftResult,
+  GeoRegion,
+  LiftMethod,
+  NoiseLevel,
+  SimulationInput,
+} from "./types";
+
+/** Number of synthetic regions the national volume is split across. */
+export const GEO_REGIONS = 20;
+
+/** Spread of region sizes, as the standard deviation of their log. */
+export const REGION_SIZE_SD = 0.5;
+
+/** Standard deviation of a region's weekly trend relative to its level; regions drift apart by this much. */
+export const REGION_TREND_SD = 0.004;
+
+/** Placebo tests (control regions analysed as if treated) behind the lift interval. */
+export const GEO_PLACEBOS = 40;
+
+/** Projected-gradient iterations used to fit synthetic control weights. */
+const SYNTHETIC_CONTROL_ITERATIONS = 300;
+
+/** Standard deviation of a region's weekly conversions relative to its level; smaller regions are noisier. */
+export function regionVolatility(noise: NoiseLevel, share: number): number {
+  return (noiseFactor(noise) * 0.5) / Math.sqrt(share * GEO_REGIONS);
+}
+
+/** Euclidean projection onto the probability simplex (Duchi et al., 2008). */
+function projectToSimplex(values: number[]): number[] {
+  const sorted = values.slice().sort((a, b) => b - a);
+  let cumulative = 0;
+  let threshold = 0;
+  sorted.forEach((value, idx) => {
+    cumulative += value;
+    const candidate = (cumulative - 1) / (idx + 1);
+    if (value - candidate > 0) threshold = candidate;
+  });
+  return values.map((value) => Math.max(value - threshold, 0));
+}
+
+/**
+ * Non-negative control weights summing to 1 whose weighted series best matches `target` over the pre-period, by
+ * projected gradient descent on the squared error. Every series is indexed to its pre-period mean, so regions of
+ * any size can stand in for the treated group, and since the weights sum to 1 only the deviations from that mean
+ * need fitting; working on those keeps the problem well conditioned.
+ */
+function syntheticControlWeights(target: number[], controls: number[][]): number[] {
+  const n = controls.length;
+  const deviations = (series: number[]) => series.map((v) => v - mean(series));
+  const y = deviations(target);
+  const x = controls.map(deviations);
+  const gram = x.map((a) => x.map((b) => a.reduce((sum, v, t) => sum + v * b[t], 0)));
+  const cross = x.map((a) => a.reduce((sum, v, t) => sum + v * y[t], 0));
+  // Step size from the Lipschitz constant of the gradient: twice the Gram matrix's largest eigenvalue, found by
+  // power iteration.
+  let eigenvector = new Array<number>(n).fill(1 / Math.sqrt(n));
+  let eigenvalue = 0;
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const product = gram.map((row) => row.reduce((sum, g, k) => sum + g * eigenvector[k], 0));
+    eigenvalue = Math.sqrt(product.reduce((sum, v) => sum + v * v, 0));
+    eigenvector = product.map((v) => v / (eigenvalue || 1));
+  }
+  const step = 1 / Math.max(2 * eigenvalue, 1e-9);
+  let weights = new Array<number>(n).fill(1 / n);
+  let momentum = weights;
+  let t = 1;
+
+  // Accelerated (FISTA) steps; plain projected gradient converges slowly on the nearly collinear regional series.
+  for (let iteration = 0; iteration < SYNTHETIC_CONTROL_ITERATIONS; iteration++) {
+    const gradient = gram.map((row, r) => 2 * (row.reduce((sum, g, k) => sum + g * momentum[k], 0) - cross[r]));
+    const next = projectToSimplex(momentum.map((w, r) => w - step * gradient[r]));
+    const change = next.reduce((max, w, r) => Math.max(max, Math.abs(w - weights[r])), 0);
+    const nextT = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    momentum = next.map((w, r) => w + ((t - 1) / nextT) * (w - weights[r]));
+    weights = next;
+    t = nextT;
+    if (change < 1e-6) break;
+  }
+  return weights;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+}
+
+/** Picks `count` distinct items of `items`. */
+function sample<T>(rng: Rng, items: T[], count: number): T[] {
+  const shuffled = items.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, count);
+}
+
+interface Counterfactual {
+  series: number[];
+  /** Weight of each donor series. */
+  weights: number[];
+}
+
+/**
+ * What `treated` would have looked like without the test, from the `donors` series. Synthetic control uses the
+ * convex combination of donors that best tracks the treated series before the test; difference-in-differences
+ * uses the pooled donors, scaled to the treated series' pre-period size.
+ */
+function estimateCounterfactual(
+  method: LiftMethod,
+  treated: number[],
+  donors: number[][],
+  preWeeks: number,
+): Counterfactual {
+  const treatedPreMean = mean(treated.slice(0, preWeeks));
+
+  if (method === "diff_in_diff") {
+    const pooled = treated.map((_, t) => donors.reduce((sum, series) => sum + series[t], 0));
+    const pooledPreMean = mean(pooled.slice(0, preWeeks)) || 1;
+    const preTotals = donors.map((series) => mean(series.slice(0, preWeeks)));
+    return {
+      series: pooled.map((v) => (v * treatedPreMean) / pooledPreMean),
+      weights: preTotals.map((v) => v / (pooledPreMean || 1)),
+    };
+  }
+
+  const indexed = donors.map((series) => {
+    const preMean = mean(series.slice(0, preWeeks)) || 1;
+    return series.map((v) => v / preMean);
+  });
+  const weights = syntheticControlWeights(
+    treated.slice(0, preWeeks).map((v) => v / (treatedPreMean || 1)),
+    indexed.map((series) => series.slice(0, preWeeks)),
+  );
+  return {
+    series: treated.map(
+      (_, t) => treatedPreMean * indexed.reduce((sum, series, idx) => sum + weights[idx] * series[t], 0),
+    ),
+    weights,
+  };
+}
+
+function sumSeries(series: number[][], indices: number[]): number[] {
+  return series[0].map((_, t) => indices.reduce((sum, idx) => sum + series[idx][t], 0));
+}
+
+/**
+ * Simulates a geo holdout and estimates its lift the way an analyst would, without access to the truth.
+ *
+ * National weekly conversions are split across GEO_REGIONS regions of uneven size. Every region follows a shared
+ * seasonal cycle with its own sensitivity and trend, plus weekly noise that is larger for smaller regions and at
+ * higher noise levels. After `preWeeks`, the channel's spend stops in the treated regions; its incremental
+ * conversions there fade out along its adstock curve.
+ *
+ * The counterfactual for the treated regions comes from the control regions, by synthetic control or
+ * difference-in-differences. Lift is the gap between counterfactual and actual over the test. Its interval comes
+ * from GEO_PLACEBOS placebo tests: random groups of control regions analysed the same way, whose "lift" is pure
+ * estimation error. Region trends that drift apart after the pre-period widen it, as they would in a real test.
+ *
+ * Returns null when the channel is not part of the scenario.
+ */
+export function simulateGeoLift(input: SimulationInput, experiment: GeoExperiment): GeoLiftResult | null {
+  const definition = input.channels.find((ch) => ch.name === experiment.channel);
+  if (!definition) return null;
+
+  const method = experiment.method ?? "synthetic_control";
+  const preWeeks = Math.max(2, Math.round(experiment.preWeeks ?? 12));
+  const testWeeks = Math.max(1, Math.round(experiment.testWeeks ?? 6));
+  // Leave enough control regions to draw placebo groups of the same size with donors to spare.
+  const treatedCount = Math.min(Math.max(1, Math.round(experiment.treatedRegions ?? 5)), Math.floor(GEO_REGIONS / 3));
+  const weeks = preWeeks + testWeeks;
+  const rng = scenarioRng(input, "geo-lift");
+
+  // The test runs against the planned budget in an average season, so flights and the calendar are left out.
+  const planned = { ...input, flights: [], calendar: undefined };
+  const media = weeklyMediaResponse(planned, weeks);
+  const dark = weeklyMediaResponse(
+    { ...planned, flights: [{ channel: definition.name, startWeek: preWeeks + 1, weeks: testWeeks, change: -1 }] },
+    weeks,
+  );
+  const economics = modelChannelEconomics(planned).find((e) => e.channel === definition.name);
+  const incrementalRatio =
+    economics && economics.conversions > 0 ? economics.incrementalConversions / economics.conversions : 0;
+  const national = Object.values(media.steadyConversions).reduce((sum, v) => sum + v, 0);
+  const steady = media.steadyConversions[definition.name] ?? 0;
+  // Incremental conversions the channel stops driving each week once it goes dark, nationally.
+  const nationalLift = dark.conversions[definition.name].map((value) => (steady - value) * incrementalRatio);
+
+  const regionIndices = Array.from({ length: GEO_REGIONS }, (_, r) => r);
+  const sizes = regionIndices.map(() => Math.exp(REGION_SIZE_SD * normal(rng)));
+  const totalSize = sizes.reduce((sum, v) => sum + v, 0);
+  const shares = sizes.map((size) => size / totalSize);
+  const treated = new Set(sample(rng, regionIndices, treatedCount));
+  const controls = regionIndices.filter((r) => !treated.has(r));
+
+  const season = Array.from({ length: weeks }, (_, t) => 0.08 * Math.sin((2 * Math.PI * t) / 26) + 0.02 * normal(rng));
+  let trueLift = 0;
+  const conversions = shares.map((share, r) => {
+    const sensitivity = 1 + 0.3 * normal(rng);
+    const trend = REGION_TREND_SD * normal(rng);
+    const volatility = regionVolatility(input.noise, share);
+    return season.map((seasonal, t) => {
+      const index = Math.max(0.1, 1 + sensitivity * seasonal + trend * (t - weeks / 2) + volatility * normal(rng));
+      const lift = treated.has(r) ? share * nationalLift[t] * index : 0;
+      trueLift += lift;
+      return share * national * index - lift;
+    });
+  });
+
+  const treatedSeries = sumSeries(conversions, [...treated]);
+  const treatedPreMean = mean(treatedSeries.slice(0, preWeeks));
+  const estimate = estimateCounterfactual(
+    method,
+    treatedSeries,
+    controls.map((r) => conversions[r]),
+    preWeeks,
+  );
+
+  // Placebo errors per week, rescaled to the size of the treated group.
+  const placeboErrors = Array.from({ length: GEO_PLACEBOS }, () => {
+    const group = sample(rng, controls, treatedCount);
+    const donors = controls.filter((r) => !group.includes(r)).map((r) => conversions[r]);
+    const placebo = sumSeries(conversions, group);
+    const scale = treatedPreMean / (mean(placebo.slice(0, preWeeks)) || 1);
+    const counterfactual = estimateCounterfactual(method, placebo, donors, preWeeks).series;
+    return placebo.map((actual, t) => (counterfactual[t] - actual) * scale);
+  });
+  const errorQuantiles = (errors: number[]) => {
+    const sorted = errors.slice().sort((a, b) => a - b);
+    return { p10: quantile(sorted, 0.1), p90: quantile(sorted, 0.9) };
+  };
+
+  const series: GeoLiftPoint[] = treatedSeries.map((actual, t) => {
+    const counterfactual = estimate.series[t];
+    const error = errorQuantiles(placeboErrors.map((errors) => errors[t]));
+    return {
+      week: `W${t + 1}`,
+      actual,
+      counterfactual,
+      band: [Math.max(0, counterfactual - error.p90), Math.max(0, counterfactual - error.p10)],
+    };
+  });
+
+  const testTotal = (values: number[]) => values.slice(preWeeks).reduce((sum, v) => sum + v, 0);
+  const lift = testTotal(estimate.series) - testTotal(treatedSeries);
+  const liftError = errorQuantiles(placeboErrors.map(testTotal));
+  const counterfactualTotal = Math.max(testTotal(estimate.series), 1e-9);
+  const liftQuantiles = { p10: lift - liftError.p90, p50: lift, p90: lift - liftError.p10 };
+  const residuals = treatedSeries.slice(0, preWeeks).map((v, t) => v - estimate.series[t]);
+
+  const weights = new Array<number>(GEO_REGIONS).fill(0);
+  controls.forEach((r, idx) => {
+    weights[r] = estimate.weights[idx];
+  });
+  const regions: GeoRegion[] = shares.map((share, r) => ({
+    name: `Region ${String(r + 1).padStart(2, "0")}`,
+    share,
+    treated: treated.has(r),
+    weight: weights[r],
+  }));
+  const treatedShare = [...treated].reduce((sum, r) => sum + shares[r], 0);
+
+  return {
+    channel: definition.name,
+    method,
+    preWeeks,
+    testWeeks,
+    regions,
+    series,
+    lift: liftQuantiles,
+    relativeLift: {
+      p10: liftQuantiles.p10 / counterfactualTotal,
+      p50: liftQuantiles.p50 / counterfactualTotal,
+      p90: liftQuantiles.p90 / counterfactualTotal,
+    },
+    trueLift,
+    spendWithheld: treatedShare * media.plannedSpend[definition.name] * testWeeks,
+    preFitError: Math.sqrt(mean(residuals.map((e) => e * e))) / Math.max(treatedPreMean, 1e-9),
+  };
+}
@@ -0,0 +1,165 @@
+import { modelChannelEconomics } from "./economics";
+import { normal, quantile, scenarioRng } from "./random";
+import { dealValue } from "./revenue";
+import type {
+  Channel,
+  FunnelModel,
+  FunnelReport,
+  FunnelStage,
+  FunnelStageTiming,
+  SimulationInput,
+  StageLag,
+  StageRates,
+} from "./types";
+
+export const FUNNEL_STAGES: FunnelStage[] = ["lead", "mql", "sql", "opportunity", "closed_won"];
+
+export const STAGE_LABELS: Record<FunnelStage, string> = {
+  lead: "Lead",
+  mql: "MQL",
+  sql: "SQL",
+  opportunity: "Opportunity",
+  closed_won: "Closed-won",
+};
+
+/** Draws of lead-to-stage time behind the timing quantiles. */
+const LAG_SAMPLES = 2000;
+
+/** Stage rates for a channel without its own, and for organic demand. */
+export const DEFAULT_STAGE_RATES: StageRates = { mql: 0.35, sql: 0.45, opportunity: 0.55, closed_won: 0.22 };
+
+/**
+ * Typical B2B stage rates by channel: search and review sites bring buyers already in market, while social lead
+ * forms and video bring volume that rarely qualifies.
+ */
+export const B2B_STAGE_RATES: Record<Channel, StageRates> = {
+  Meta: { mql: 0.2, sql: 0.3, opportunity: 0.5, closed_won: 0.18 },
+  "Google Search": { mql: 0.55, sql: 0.6, opportunity: 0.6, closed_won: 0.3 },
+  LinkedIn: { mql: 0.25, sql: 0.35, opportunity: 0.55, closed_won: 0.22 },
+  YouTube: { mql: 0.2, sql: 0.3, opportunity: 0.5, closed_won: 0.2 },
+  TikTok: { mql: 0.15, sql: 0.25, opportunity: 0.45, closed_won: 0.15 },
+  "Microsoft Ads": { mql: 0.5, sql: 0.55, opportunity: 0.6, closed_won: 0.28 },
+  G2: { mql: 0.6, sql: 0.6, opportunity: 0.65, closed_won: 0.3 },
+  Podcasts: { mql: 0.3, sql: 0.4, opportunity: 0.55, closed_won: 0.22 },
+  Events: { mql: 0.45, sql: 0.5, opportunity: 0.6, closed_won: 0.25 },
+};
+
+export const DEFAULT_STAGE_LAGS: FunnelModel["lags"] = {
+  mql: { medianDays: 3, sigma: 0.6 },
+  sql: { medianDays: 10, sigma: 0.6 },
+  opportunity: { medianDays: 14, sigma: 0.5 },
+  closed_won: { medianDays: 45, sigma: 0.5 },
+};
+
+/** A B2B funnel reporting closed-won deals, so the numbers match a scenario without one until the stage changes. */
+export function defaultFunnel(): FunnelModel {
+  return {
+    conversionStage: "closed_won",
+    rates: Object.fromEntries(Object.entries(B2B_STAGE_RATES).map(([channel, rates]) => [channel, { ...rates }])),
+    lags: {
+      mql: { ...DEFAULT_STAGE_LAGS.mql },
+      sql: { ...DEFAULT_STAGE_LAGS.sql },
+      opportunity: { ...DEFAULT_STAGE_LAGS.opportunity },
+      closed_won: { ...DEFAULT_STAGE_LAGS.closed_won },
+    },
+  };
+}
+
+/** Conversions at each stage per closed-won deal: 1 at closed-won, more at every earlier stage. */
+export function stageVolumes(rates: StageRates): Record<FunnelStage, number> {
+  const volumes = { closed_won: 1 } as Record<FunnelStage, number>;
+  for (let idx = FUNNEL_STAGES.length - 2; idx >= 0; idx--) {
+    const next = FUNNEL_STAGES[idx + 1] as keyof StageRates;
+    volumes[FUNNEL_STAGES[idx]] = volumes[next] / Math.max(rates[next], 1e-3);
+  }
+  return volumes;
+}
+
+/**
+ * Conversions at the scenario's conversion stage per closed-won deal, for a channel or (without one) for organic
+ * demand. 1 when the scenario has no funnel.
+ */
+export function stageVolume(input: SimulationInput, channel?: Channel): number {
+  const { funnel } = input;
+  if (!funnel) return 1;
+  const rates = (channel !== undefined && funnel.rates[channel]) || DEFAULT_STAGE_RATES;
+  return stageVolumes(rates)[funnel.conversionStage];
+}
+
+/** Revenue per conversion at the scenario's conversion stage: the deal value times the chance of closing. */
+export function stageValue(input: SimulationInput, channel: Channel): number {
+  return dealValue(input, channel) / stageVolume(input, channel);
+}
+
+/**
+ * Re-weights a click-based model's credit shares to the conversion stage. Journeys are credited as deals, and a
+ * channel credited with a share of the deals is credited with its own funnel's volume at earlier stages, so the
+ * shares tilt towards channels whose leads rarely close. The shares' total is unchanged.
+ */
+export function stageCreditShares(input: SimulationInput, shares: Record<Channel, number>): Record<Channel, number> {
+  if (!input.funnel || input.model === "bayesian_mmm") return shares;
+  const total = Object.values(shares).reduce((sum, v) => sum + v, 0);
+  const weights = Object.entries(shares).reduce<Record<Channel, number>>((acc, [channel, share]) => {
+    acc[channel] = share * stageVolume(input, channel);
+    return acc;
+  }, {});
+  const weightedTotal = Object.values(weights).reduce((sum, v) => sum + v, 0);
+  if (weightedTotal <= 0) return shares;
+  return Object.fromEntries(Object.entries(weights).map(([channel, v]) => [channel, (v * total) / weightedTotal]));
+}
+
+/** Lead-to-stage times in days, one sorted list of draws per stage. */
+function leadToStageDays(input: SimulationInput): Record<FunnelStage, number[]> {
+  const lags = input.funnel?.lags;
+  const rng = scenarioRng(input, "funnel-lags");
+  const draws = FUNNEL_STAGES.reduce(
+    (acc, stage) => {
+      acc[stage] = [];
+      return acc;
+    },
+    {} as Record<FunnelStage, number[]>,
+  );
+  for (let i = 0; i < LAG_SAMPLES; i++) {
+    let days = 0;
+    FUNNEL_STAGES.forEach((stage) => {
+      const lag: StageLag | undefined = stage === "lead" ? undefined : lags?.[stage];
+      if (lag) days += Math.max(lag.medianDays, 0) * Math.exp(Math.max(lag.sigma, 0) * normal(rng));
+      draws[stage].push(days);
+    });
+  }
+  FUNNEL_STAGES.forEach((stage) => draws[stage].sort((a, b) => a - b));
+  return draws;
+}
+
+/** Median and p90 lead-to-stage times, and the share of leads reaching each stage within a month. */
+export function stageTimings(input: SimulationInput): FunnelStageTiming[] {
+  const days = leadToStageDays(input);
+  return FUNNEL_STAGES.map((stage) => ({
+    stage,
+    medianDays: quantile(days[stage], 0.5),
+    p90Days: quantile(days[stage], 0.9),
+    withinMonth: days[stage].filter((value) => value <= 30).length / Math.max(days[stage].length, 1),
+  }));
+}
+
+/** Each channel's monthly volume and cost at every stage, from its modeled deals and its stage rates. */
+export function buildFunnelReport(input: SimulationInput): FunnelReport | null {
+  const { funnel } = input;
+  if (!funnel) return null;
+  const deals = modelChannelEconomics({ ...input, funnel: undefined });
+
+  return {
+    conversionStage: funnel.conversionStage,
+    timings: stageTimings(input),
+    channels: deals.map((e) => {
+      const volumes = stageVolumes(funnel.rates[e.channel] ?? DEFAULT_STAGE_RATES);
+      return {
+        channel: e.channel,
+        stages: FUNNEL_STAGES.map((stage) => {
+          const conversions = e.conversions * volumes[stage];
+          return { stage, conversions, costPer: e.spend / Math.max(conversions, 1e-9) };
+        }),
+      };
+    }),
+  };
+}
@@ -0,0 +1,108 @@
+import { optimizeBudget } from "./budget";
+import { simulateAttribution, summarizeOutputs, type FittedModels } from "./simulate";
+import type {
+  BudgetPlan,
+  Channel,
+  ChannelOutput,
+  GoalSeekResult,
+  GoalTarget,
+  ScenarioSummary,
+  SimulationInput,
+} from "./types";
+
+/** Bisection steps over total budget; enough to pin the budget to well under 0.1% of its range. */
+const BISECTION_STEPS = 20;
+
+interface Evaluation {
+  plan: BudgetPlan;
+  summary: ScenarioSummary;
+}
+
+function achieved(target: GoalTarget, summary: ScenarioSummary): number {
+  if (target.metric === "cac") return summary.blendedCAC;
+  if (target.metric === "roas") return summary.blendedROAS;
+  return summary.totalConversions;
+}
+
+function meetsTarget(target: GoalTarget, summary: ScenarioSummary): boolean {
+  const value = achieved(target, summary);
+  return target.metric === "cac" ? value <= target.value : value >= target.value;
+}
+
+/**
+ * Solves for the total budget and channel mix that reach a target blended CAC, blended ROAS or conversion volume.
+ * At each candidate budget the mix comes from `optimizeBudget` (ignoring the week-over-week limit, since this is a
+ * plan rather than next week's move) and the outcome from `simulateAttribution` at that mix. Every step reuses the
+ * scenario's `fitted` models, so journeys, Markov and Shapley are not rebuilt and the MMM is scored by its
+ * posterior, and skips the Monte Carlo bands, which the outcome does not need.
+ *
+ * Saturation makes CAC rise and ROAS fall as budget grows, so CAC and ROAS targets return the largest budget that
+ * still meets them, and a conversion target the smallest budget that reaches it. A target no budget within the
+ * channels' spend ranges can reach is reported as infeasible, alongside the closest achievable outcome.
+ */
+export function seekGoal(
+  input: SimulationInput,
+  outputs: ChannelOutput[],
+  target: GoalTarget,
+  fitted: FittedModels = {},
+): GoalSeekResult {
+  const evaluate = (totalBudget: number): Evaluation => {
+    const plan = optimizeBudget(
+      { ...input, budget: { ...input.budget, totalBudget, maxWeeklyChange: undefined } },
+      outputs,
+    );
+    const spend = plan.rows.reduce<Record<Channel, number>>((acc, row) => {
+      acc[row.channel] = row.after;
+      return acc;
+    }, {});
+    const planned = { ...input, spend };
+    return { plan, summary: summarizeOutputs(planned, simulateAttribution(planned, fitted, 0)) };
+  };
+
+  const locked = new Set(input.budget?.locked ?? []);
+  const bounds = input.channels.map((ch) =>
+    locked.has(ch.name)
+      ? { min: input.spend[ch.name] ?? 0, max: input.spend[ch.name] ?? 0 }
+      : {
+          min: input.budget?.minSpend?.[ch.name] ?? ch.minSpend,
+          max: input.budget?.maxSpend?.[ch.name] ?? ch.maxSpend,
+        },
+  );
+  let low = bounds.reduce((sum, b) => sum + b.min, 0);
+  let high = bounds.reduce((sum, b) => sum + b.max, 0);
+
+  const volumeTarget = target.metric === "conversions";
+  // The end of the budget range that is easiest to satisfy: the top for volume, the bottom for efficiency.
+  const easiest = evaluate(volumeTarget ? high : low);
+  if (!meetsTarget(target, easiest.summary)) {
+    return result(target, false, easiest);
+  }
+
+  const hardest = evaluate(volumeTarget ? low : high);
+  if (meetsTarget(target, hardest.summary)) {
+    return result(target, true, hardest);
+  }
+
+  let best = easiest;
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const middle = (low + high) / 2;
+    const evaluation = evaluate(middle);
+    const meets = meetsTarget(target, evaluation.summary);
+    if (meets) best = evaluation;
+    if (meets === volumeTarget) high = middle;
+    else low = middle;
+  }
+
+  return result(target, true, best);
+}
+
+function result(target: GoalTarget, feasible: boolean, { plan, summary }: Evaluation): GoalSeekResult {
+  return {
+    target,
+    feasible,
+    totalBudget: plan.rows.reduce((sum, row) => sum + row.after, 0),
+    rows: plan.rows,
+    summary,
+    achieved: achieved(target, summary),
+  };
+}
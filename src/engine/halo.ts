@@ -0,0 +1,128 @@
+import { TIME_DECAY_HALF_LIFE_DAYS, touchWindows } from "./attribution";
+import { baselineConversions, creditsBrandedSearch } from "./baseline";
+import { modelChannelEconomics } from "./economics";
+import { noiseFactor } from "./response";
+import type {
+  AttributionModel,
+  Channel,
+  ChannelOutput,
+  HaloEffect,
+  HaloFlow,
+  HaloReport,
+  MmmFit,
+  SimulationInput,
+} from "./types";
+
+type ClickModel = Exclude<AttributionModel, "bayesian_mmm">;
+
+const CLICK_MODELS: ClickModel[] = ["last_click", "position_based", "time_decay", "markov", "shapley"];
+
+/** The usual B2B pattern: social prospecting sends buyers to search for the brand a week or two later. */
+export const DEFAULT_HALO: HaloEffect[] = [
+  { from: "LinkedIn", to: "Google Search", strength: 0.25, lagWeeks: 2 },
+  { from: "Meta", to: "Google Search", strength: 0.15, lagWeeks: 1 },
+];
+
+/**
+ * Share of a halo conversion a click-based model gives the channel that caused it. The conversion is a two-touch
+ * path: a touch on `from`, then the converting click on `to` `lagWeeks` later. The earlier touch only counts when
+ * it was tracked and falls inside its click window, and then each model splits the path its own way.
+ */
+function fromCredit(input: SimulationInput, halo: HaloEffect, model: ClickModel): number {
+  const definition = input.channels.find((ch) => ch.name === halo.from);
+  const gapDays = halo.lagWeeks * 7;
+  if (!definition || gapDays > touchWindows(input)[halo.from].clickDays) return 0;
+  const tracked = Math.max(0, 1 - noiseFactor(input.noise) * definition.prospecting * 1.5);
+  const decayed = Math.pow(0.5, gapDays / TIME_DECAY_HALF_LIFE_DAYS);
+  const share: Record<ClickModel, number> = {
+    last_click: 0,
+    position_based: 0.5,
+    time_decay: decayed / (1 + decayed),
+    // Removal effects and Shapley values both split a two-touch path evenly.
+    markov: 0.5,
+    shapley: 0.5,
+  };
+  return tracked * share[model];
+}
+
+/**
+ * Monthly halo conversions for each effect in the scenario. An effect only plays out when both channels are in the
+ * scenario and the receiving channel is running; its size scales with the direct incremental conversions of the
+ * channel that causes it.
+ */
+export function haloFlows(input: SimulationInput): HaloFlow[] {
+  const economics = modelChannelEconomics(input);
+  const inScenario = (channel: Channel) => input.channels.some((ch) => ch.name === channel);
+  return (input.halo ?? [])
+    .filter(
+      (halo) =>
+        halo.from !== halo.to && inScenario(halo.from) && inScenario(halo.to) && (input.spend[halo.to] ?? 0) > 0,
+    )
+    .map((halo) => ({
+      ...halo,
+      conversions:
+        Math.max(halo.strength, 0) * (economics.find((e) => e.channel === halo.from)?.incrementalConversions ?? 0),
+      fromCredit: CLICK_MODELS.reduce(
+        (acc, model) => {
+          acc[model] = fromCredit(input, halo, model);
+          return acc;
+        },
+        {} as Record<ClickModel, number>,
+      ),
+    }));
+}
+
+/** Conversions each channel causes through other channels. */
+export function haloOut(flows: HaloFlow[]): Record<Channel, number> {
+  return flows.reduce<Record<Channel, number>>((acc, flow) => {
+    acc[flow.from] = (acc[flow.from] ?? 0) + flow.conversions;
+    return acc;
+  }, {});
+}
+
+/** Halo conversions a click-based model credits to each channel; empty for the MMM, which credits from spend. */
+export function haloCredit(flows: HaloFlow[], model: AttributionModel): Record<Channel, number> {
+  if (model === "bayesian_mmm") return {};
+  return flows.reduce<Record<Channel, number>>((acc, flow) => {
+    const share = flow.fromCredit[model];
+    acc[flow.from] = (acc[flow.from] ?? 0) + flow.conversions * share;
+    acc[flow.to] = (acc[flow.to] ?? 0) + flow.conversions * (1 - share);
+    return acc;
+  }, {});
+}
+
+/**
+ * Conversions a click-based model credits on top of the simulated journeys: branded searches, and halo paths split
+ * between the two channels. Empty for the MMM, which sees neither path.
+ */
+export function pathCredit(input: SimulationInput, flows: HaloFlow[]): Record<Channel, number> {
+  if (!creditsBrandedSearch(input.model)) return {};
+  const credit = { ...baselineConversions(input).branded };
+  Object.entries(haloCredit(flows, input.model)).forEach(([channel, value]) => {
+    credit[channel] = (credit[channel] ?? 0) + value;
+  });
+  return credit;
+}
+
+/** Compares each channel's true effect, halo included, with last click's credit and the MMM's estimate. */
+export function buildHaloReport(
+  input: SimulationInput,
+  lastClick: ChannelOutput[],
+  mmm: MmmFit | null | undefined,
+): HaloReport {
+  const flows = haloFlows(input);
+  const out = haloOut(flows);
+  const economics = modelChannelEconomics(input);
+
+  return {
+    flows,
+    channels: economics.map((e) => ({
+      channel: e.channel,
+      trueConversions: e.incrementalConversions + (out[e.channel] ?? 0),
+      haloOut: out[e.channel] ?? 0,
+      haloIn: flows.filter((flow) => flow.to === e.channel).reduce((sum, flow) => sum + flow.conversions, 0),
+      lastClick: lastClick.find((o) => o.channel === e.channel)?.attributedConversions ?? 0,
+      mmm: mmm?.channels.find((c) => c.channel === e.channel)?.contribution.mean ?? null,
+    })),
+  };
+}
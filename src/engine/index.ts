@@ -0,0 +1,225 @@
+/**
+ * Headless attribution simulation engine.
+ *
+ * `runScenario` is the single entry point: it takes one scenario object and returns every output the
+ * simulator renders. The module has no React or DOM dependencies, so it can be imported from scripts,
+ * tests and other pages. `ENGINE_VERSION` follows semver and is bumped whenever the shape of
+ * `Scenario` or `ScenarioResult` changes, or when the same scenario would produce different numbers.
+ */
+import { weeklyMediaResponse } from "./adstock";
+import { touchWindows } from "./attribution";
+import { buildContributions } from "./baseline";
+import { optimizeBudget } from "./budget";
+import { buildCalendar, calendarAnnotations } from "./calendar";
+import { buildCohortTable } from "./cohorts";
+import { buildResponseCurves } from "./curves";
+import { simulateGeoLift } from "./experiments";
+import { buildFunnelReport } from "./funnel";
+import { seekGoal } from "./goal";
+import { buildHaloReport } from "./halo";
+import { generateJourneys } from "./journeys";
+import { buildUnitEconomics } from "./ltv";
+import { buildMarkovModel } from "./markov";
+import { fitScenarioMmm } from "./mmm";
+import { buildPlatformReport } from "./platforms";
+import { planLiftTests } from "./power";
+import { DEFAULT_SEED } from "./random";
+import { scoreModels } from "./scoring";
+import { SHAPLEY_SAMPLE_PERMUTATIONS, computeShapley } from "./shapley";
+import { WEEKS, buildOptimizedWeeklySeries, buildPerChannelWeeklySeries, buildWeeklySeries } from "./series";
+import { simulateAttribution, summarizeOutputs } from "./simulate";
+import type { MmmFit, Scenario, ScenarioResult } from "./types";
+import { buildViewWindowReport } from "./windows";
+
+export const ENGINE_VERSION = "10.0.0";
+
+export interface RunOptions {
+  /**
+   * Bayesian MMM posterior to use under the `bayesian_mmm` model, for ground-truth scoring and in the halo report.
+   * When omitted the model is fitted synchronously; pass `null` to skip fitting (for example while a web worker is
+   * still fitting it), in which case incremental conversions fall back to the simulator's structural estimate.
+   */
+  mmm?: MmmFit | null;
+  /**
+   * Posterior fitted without the scenario's lift tests, reported as the uncalibrated MMM estimate when
+   * `scenario.calibration` is set. Fitted synchronously when omitted; `null` leaves the comparison empty.
+   */
+  uncalibratedMmm?: MmmFit | null;
+}
+
+/** Runs the full simulation for one scenario. Pure: the same scenario always yields the same result. */
+export function runScenario(scenario: Scenario, options: RunOptions = {}): ScenarioResult {
+  const journeys = generateJourneys(scenario);
+  const channelNames = scenario.channels.map((ch) => ch.name);
+  const windows = touchWindows(scenario);
+  const markov = buildMarkovModel(journeys, channelNames, windows, scenario.markovOrder);
+  const shapley = computeShapley(
+    journeys,
+    channelNames,
+    windows,
+    SHAPLEY_SAMPLE_PERMUTATIONS,
+    scenario.seed ?? DEFAULT_SEED,
+  );
+  const mmm =
+    scenario.model !== "bayesian_mmm" && !scenario.groundTruth && !scenario.halo?.length
+      ? null
+      : options.mmm === undefined
+        ? fitScenarioMmm(scenario)
+        : options.mmm;
+  const uncalibratedMmm =
+    mmm === null || !scenario.calibration?.length
+      ? null
+      : options.uncalibratedMmm === undefined
+        ? fitScenarioMmm({ ...scenario, calibration: undefined })
+        : options.uncalibratedMmm;
+  const fitted = { journeys, markov, shapley, mmm, uncalibratedMmm };
+  const outputs = simulateAttribution(scenario, fitted);
+  const budgetPlan = optimizeBudget(scenario, outputs);
+  const summary = summarizeOutputs(scenario, outputs, budgetPlan);
+  const media = weeklyMediaResponse(scenario, WEEKS);
+  const weeklySeries = buildWeeklySeries(scenario, summary, media);
+
+  return {
+    engineVersion: ENGINE_VERSION,
+    journeys,
+    markov,
+    shapley,
+    mmm,
+    groundTruth: scenario.groundTruth ? scoreModels(scenario, fitted) : null,
+    outputs,
+    budgetPlan,
+    goalSeek: scenario.goal ? seekGoal(scenario, outputs, scenario.goal, fitted) : null,
+    experiment: scenario.experiment ? simulateGeoLift(scenario, scenario.experiment) : null,
+    testPlans: planLiftTests(scenario, scenario.experiment?.preWeeks),
+    summary,
+    weeklySeries,
+    weeklySeriesOptimized: buildOptimizedWeeklySeries(weeklySeries, summary.efficiencyGain),
+    perChannelWeeklySeries: buildPerChannelWeeklySeries(scenario.channels, outputs, media),
+    contributions: buildContributions(scenario, outputs),
+    halo: scenario.halo?.length
+      ? buildHaloReport(
+          scenario,
+          scenario.model === "last_click" ? outputs : simulateAttribution({ ...scenario, model: "last_click" }, fitted),
+          mmm,
+        )
+      : null,
+    funnel: buildFunnelReport(scenario),
+    unitEconomics: buildUnitEconomics(scenario, outputs, budgetPlan),
+    platforms: buildPlatformReport(scenario, journeys, outputs),
+    viewWindows: buildViewWindowReport(scenario, journeys, outputs),
+    calendar: buildCalendar(scenario, WEEKS),
+    annotations: calendarAnnotations(scenario, WEEKS),
+    responseCurves: buildResponseCurves(scenario, outputs),
+    cohorts: buildCohortTable(scenario.window, scenario.noise),
+  };
+}
+
+export {
+  certaintyFromInterval,
+  simulateAttribution,
+  summarizeOutputs,
+  type FittedModels,
+} from "./simulate";
+export { WEEKS_PER_MONTH } from "./constants";
+export {
+  DEFAULT_BASELINE,
+  baselineConversions,
+  buildContributions,
+  creditsBrandedSearch,
+  type BaselineConversions,
+} from "./baseline";
+export {
+  B2B_CALENDAR_EVENTS,
+  B2B_FOURIER_SEASONALITY,
+  B2B_MONTHLY_SEASONALITY,
+  MONTH_LABELS,
+  WEEKS_PER_YEAR,
+  activeEvents,
+  buildCalendar,
+  calendarAnnotations,
+  calendarEffects,
+  defaultCalendar,
+  monthOfWeek,
+  seasonalIndex,
+  weekOfYear,
+  type CalendarEffects,
+} from "./calendar";
+export { calibrateEstimate, liftTestPriors } from "./calibration";
+export { clickWindowMultiplier, modelChannelEconomics } from "./economics";
+export {
+  B2B_STAGE_RATES,
+  DEFAULT_STAGE_LAGS,
+  DEFAULT_STAGE_RATES,
+  FUNNEL_STAGES,
+  STAGE_LABELS,
+  buildFunnelReport,
+  defaultFunnel,
+  stageCreditShares,
+  stageTimings,
+  stageValue,
+  stageVolume,
+  stageVolumes,
+} from "./funnel";
+export { DEFAULT_HALO, buildHaloReport, haloCredit, haloFlows, haloOut, pathCredit } from "./halo";
+export { DEFAULT_UNIT_ECONOMICS, LTV_HORIZON_MONTHS, buildUnitEconomics, unitEconomicsRow } from "./ltv";
+export { MONTE_CARLO_DRAWS, simulateUncertainty } from "./uncertainty";
+export {
+  B2B_DEAL_SEGMENTS,
+  DEFAULT_REVENUE_MODEL,
+  averageDealValue,
+  dealValue,
+  dealValueQuantiles,
+  dealValueSpread,
+} from "./revenue";
+export {
+  ADSTOCK_MAX_LAG,
+  adstockWeights,
+  applyAdstock,
+  weeklyMediaResponse,
+  weeklySpendPlan,
+  type WeeklyMediaResponse,
+} from "./adstock";
+export {
+  MMM_HISTORY_WEEKS,
+  MMM_SCENARIO_FIELDS,
+  fitBayesianMmm,
+  fitScenarioMmm,
+  generateMmmDataset,
+  geometricAdstock,
+  type MmmOptions,
+} from "./mmm";
+export { optimizeBudget } from "./budget";
+export { seekGoal } from "./goal";
+export { GEO_PLACEBOS, GEO_REGIONS, regionVolatility, simulateGeoLift } from "./experiments";
+export { JOURNEY_COUNT, VIEW_LOOKBACK_DAYS, generateJourneys } from "./journeys";
+export { VIEW_WINDOW_STEPS, buildViewWindowReport } from "./windows";
+export { PLATFORM_REPORTING, buildPlatformReport } from "./platforms";
+export {
+  TIME_DECAY_HALF_LIFE_DAYS,
+  attributeJourneys,
+  eligibleTouchpoints,
+  isRuleBasedModel,
+  observedPath,
+  touchWindows,
+  touchpointWeights,
+  windowDays,
+  type AttributionWindows,
+  type RuleBasedModel,
+} from "./attribution";
+export { MARKOV_CONVERSION, MARKOV_NULL, MARKOV_START, buildMarkovModel, stateChannels } from "./markov";
+export { MAX_TEST_WEEKS, MIN_TEST_WEEKS, POWER_ALPHA, POWER_TARGET, planLiftTests } from "./power";
+export { ATTRIBUTION_MODELS, MIN_BIAS_TRUTH, scoreModels } from "./scoring";
+export { SHAPLEY_EXACT_LIMIT, SHAPLEY_SAMPLE_PERMUTATIONS, computeShapley } from "./shapley";
+export { DEFAULT_SEED, createRng, scenarioRng, streamRng, type Rng } from "./random";
+export { SATURATION_PRESETS, hillResponse, saturationPenalty, saturationPreset } from "./response";
+export { WEEKS, buildWeeklySeries, buildOptimizedWeeklySeries, buildPerChannelWeeklySeries } from "./series";
+export { buildCohortTable } from "./cohorts";
+export {
+  MARGINAL_SPEND_STEP,
+  RESPONSE_CURVE_POINTS,
+  RESPONSE_CURVE_RANGE,
+  buildResponseCurves,
+  channelResponse,
+} from "./curves";
+export { CHANNEL_REGISTRY, DEFAULT_CHANNELS, byChannel, defaultChannelDefinitions, getChannelDefinition } from "./channels";
+export * from "./types";
@@ -0,0 +1,99 @@
+import { exponential, scenarioRng, weightedIndex } from "./random";
+import { noiseFactor, saturationPenalty } from "./response";
+import type { Journey, SimulationInput, Touchpoint } from "./types";
+
+export const JOURNEY_COUNT = 3000;
+
+/** Conversion probability for a journey with no paid touches at all. */
+const BASE_CONVERSION_RATE = 0.02;
+
+/** Average gap, in days, between consecutive touches and between the last touch and conversion. */
+const MEAN_TOUCH_GAP_DAYS = 5;
+const MEAN_CONVERSION_LAG_DAYS = 2;
+
+/** Days before the end of a journey in which views are drawn; no platform's view window is longer. */
+export const VIEW_LOOKBACK_DAYS = 30;
+
+/** Daily chance that a user sees a channel's ad without clicking, for a channel at average spend. */
+const DAILY_VIEW_REACH = 0.08;
+
+/** Cap on a channel's daily view reach, however much of the budget it takes. */
+const MAX_DAILY_VIEW_REACH = 0.4;
+
+/**
+ * Generates synthetic user journeys: ordered, timestamped touchpoint paths across the scenario's
+ * channels, some of which convert.
+ *
+ * Channels are picked in proportion to spend, with prospecting-heavy channels favoured early in a path and
+ * retargeting-heavy channels favoured late. Each touch lifts the conversion probability according to the
+ * channel's efficiency and saturation. Touches can go untracked (more often for prospecting channels and at
+ * higher noise), and attribution models only ever see tracked touches.
+ *
+ * Views are drawn afterwards from their own random stream, so they never change the clicks: over the last
+ * VIEW_LOOKBACK_DAYS of a journey, each channel is seen on a day with a chance that grows with its prospecting
+ * weight and share of spend. Views do not change whether a journey converts.
+ */
+export function generateJourneys(input: SimulationInput, count = JOURNEY_COUNT): Journey[] {
+  const rng = scenarioRng(input, "journeys");
+  const viewRng = scenarioRng(input, "journey-views");
+  const { channels } = input;
+  const noise = noiseFactor(input.noise);
+
+  const spendShares = channels.map((ch) => input.spend[ch.name] ?? 0);
+  const touchLift = channels.map(
+    (ch) => Math.min(0.35, 0.04 * ch.efficiency * saturationPenalty(ch.saturation, input.spend[ch.name] ?? 0)),
+  );
+  const totalSpend = spendShares.reduce((sum, v) => sum + v, 0);
+  const viewReach = channels.map((ch, idx) =>
+    Math.min(
+      (DAILY_VIEW_REACH * ch.prospecting * spendShares[idx] * channels.length) / Math.max(totalSpend, 1e-9),
+      MAX_DAILY_VIEW_REACH,
+    ),
+  );
+
+  return Array.from({ length: count }, (_, id) => {
+    // Without channels there is nothing to touch, and journeys convert at the base rate alone.
+    const length = channels.length ? 1 + Math.floor(exponential(rng, 2)) : 0;
+    const touchpoints: Touchpoint[] = [];
+    let timestamp = 0;
+    let noConversion = 1 - BASE_CONVERSION_RATE;
+
+    for (let position = 0; position < length; position++) {
+      const progress = length === 1 ? 1 : position / (length - 1);
+      const weights = channels.map(
+        (ch, idx) => spendShares[idx] * (ch.prospecting * (1 - progress) + ch.retargeting * progress + 0.05),
+      );
+      const idx = weightedIndex(rng, weights);
+      const channel = channels[idx];
+
+      if (position > 0) timestamp += exponential(rng, MEAN_TOUCH_GAP_DAYS);
+      noConversion *= 1 - touchLift[idx];
+
+      touchpoints.push({
+        channel: channel.name,
+        type: "click",
+        timestamp,
+        tracked: rng() >= noise * channel.prospecting * 1.5,
+      });
+    }
+
+    const converted = rng() < 1 - noConversion;
+    const conversionTime = converted ? timestamp + exponential(rng, MEAN_CONVERSION_LAG_DAYS) : null;
+
+    const end = conversionTime ?? timestamp;
+    channels.forEach((channel, idx) => {
+      for (let day = 0; day < VIEW_LOOKBACK_DAYS; day++) {
+        if (viewRng() >= viewReach[idx]) continue;
+        touchpoints.push({
+          channel: channel.name,
+          type: "view",
+          timestamp: end - day - viewRng(),
+          tracked: viewRng() >= noise * channel.prospecting * 1.5,
+        });
+      }
+    });
+    touchpoints.sort((a, b) => a.timestamp - b.timestamp);
+
+    return { id, touchpoints, converted, conversionTime };
+  });
+}
@@ -0,0 +1,102 @@
+import { channelResponse } from "./curves";
+import { stageVolume } from "./funnel";
+import { dealValue } from "./revenue";
+import type {
+  BudgetPlan,
+  ChannelOutput,
+  SimulationInput,
+  UnitEconomics,
+  UnitEconomicsReport,
+  UnitEconomicsRow,
+} from "./types";
+
+/** A typical B2B SaaS customer: high margin, slow churn, some expansion and a short onboarding ramp. */
+export const DEFAULT_UNIT_ECONOMICS: UnitEconomics = {
+  grossMargin: 0.8,
+  monthlyChurn: 0.02,
+  expansionRate: 0.01,
+  rampMonths: 2,
+};
+
+/** Lifetime value stops counting after this many months, so expansion above churn cannot make it infinite. */
+export const LTV_HORIZON_MONTHS = 60;
+
+/** Gross margin a customer paying `monthlyRevenue` once ramped earns in each month of its lifetime. */
+function monthlyMargins(unit: UnitEconomics, monthlyRevenue: number): number[] {
+  const growth = (1 + unit.expansionRate) * (1 - Math.min(Math.max(unit.monthlyChurn, 0), 1));
+  return Array.from({ length: LTV_HORIZON_MONTHS }, (_, month) => {
+    const ramp = unit.rampMonths > 0 ? Math.min(1, (month + 1) / unit.rampMonths) : 1;
+    return monthlyRevenue * ramp * Math.pow(growth, month) * Math.min(Math.max(unit.grossMargin, 0), 1);
+  });
+}
+
+/**
+ * LTV, LTV:CAC and payback for `customers` new customers a month bought with `spend`, each paying `monthlyRevenue`
+ * once ramped. Payback is fractional: the month the cumulative margin crosses the CAC, interpolated within it.
+ */
+export function unitEconomicsRow(
+  unit: UnitEconomics,
+  spend: number,
+  customers: number,
+  monthlyRevenue: number,
+): UnitEconomicsRow {
+  const cac = spend / Math.max(customers, 1e-9);
+  const margins = monthlyMargins(unit, monthlyRevenue);
+  const ltv = margins.reduce((sum, v) => sum + v, 0);
+
+  let paybackMonths: number | null = null;
+  let earned = 0;
+  for (let month = 0; month < margins.length; month++) {
+    if (earned + margins[month] >= cac) {
+      paybackMonths = month + (cac - earned) / Math.max(margins[month], 1e-9);
+      break;
+    }
+    earned += margins[month];
+  }
+
+  return { customers, cac, monthlyRevenue, ltv, ltvToCac: ltv / Math.max(cac, 1e-9), paybackMonths };
+}
+
+/**
+ * Unit economics from the simulated CAC and revenue. A channel's customers are its attributed conversions counted
+ * as closed-won deals, and each pays a twelfth of its channel's deal value a month, treating deal values as annual
+ * contracts. The blended row pools spend, customers and revenue across channels; the planned row does the same at
+ * the budget plan's spend, moving each channel along its response curve.
+ */
+export function buildUnitEconomics(
+  input: SimulationInput,
+  outputs: ChannelOutput[],
+  plan?: BudgetPlan,
+): UnitEconomicsReport {
+  const unit = input.unitEconomics ?? DEFAULT_UNIT_ECONOMICS;
+  const channels = outputs.map((o) => {
+    const spend = input.spend[o.channel] ?? 0;
+    const customers = o.attributedConversions / stageVolume(input, o.channel);
+    return { ...unitEconomicsRow(unit, spend, customers, dealValue(input, o.channel) / 12), channel: o.channel };
+  });
+
+  const pooled = (rows: { spend: number; customers: number; monthlyRevenue: number }[]) => {
+    const customers = rows.reduce((sum, row) => sum + row.customers, 0);
+    const revenue = rows.reduce((sum, row) => sum + row.customers * row.monthlyRevenue, 0);
+    const spend = rows.reduce((sum, row) => sum + row.spend, 0);
+    return unitEconomicsRow(unit, spend, customers, revenue / Math.max(customers, 1e-9));
+  };
+
+  const planned = input.channels.map((definition) => {
+    const current = channels.find((row) => row.channel === definition.name);
+    const output = outputs.find((o) => o.channel === definition.name);
+    const spend = plan?.rows.find((row) => row.channel === definition.name)?.after ?? input.spend[definition.name] ?? 0;
+    const conversions = channelResponse(input, definition, output?.attributedConversions)(spend);
+    return {
+      spend,
+      customers: conversions / stageVolume(input, definition.name),
+      monthlyRevenue: current?.monthlyRevenue ?? 0,
+    };
+  });
+
+  return {
+    blended: pooled(channels.map((row) => ({ ...row, spend: input.spend[row.channel] ?? 0 }))),
+    channels,
+    planned: pooled(planned),
+  };
+}
@@ -0,0 +1,124 @@
+import { observedPath, type AttributionWindows } from "./attribution";
+import type { Channel, Journey, MarkovOrder, MarkovResult } from "./types";
+
+export const MARKOV_START = "(start)";
+export const MARKOV_CONVERSION = "(conversion)";
+export const MARKOV_NULL = "(null)";
+
+const STATE_SEPARATOR = " > ";
+const MAX_ITERATIONS = 500;
+const TOLERANCE = 1e-10;
+
+/** A state of an order-k chain is the last k channels visited (fewer at the start of a path). */
+function stateAt(path: Channel[], idx: number, order: MarkovOrder): string {
+  return path.slice(Math.max(0, idx - order + 1), idx + 1).join(STATE_SEPARATOR);
+}
+
+export function stateChannels(state: string): Channel[] {
+  return state.split(STATE_SEPARATOR);
+}
+
+type Transitions = Map<string, Map<string, number>>;
+
+function countTransitions(paths: { path: Channel[]; converted: boolean }[], order: MarkovOrder): Transitions {
+  const counts: Transitions = new Map();
+  const add = (from: string, to: string) => {
+    const row = counts.get(from) ?? new Map<string, number>();
+    row.set(to, (row.get(to) ?? 0) + 1);
+    counts.set(from, row);
+  };
+
+  paths.forEach(({ path, converted }) => {
+    const terminal = converted ? MARKOV_CONVERSION : MARKOV_NULL;
+    if (path.length === 0) {
+      add(MARKOV_START, terminal);
+      return;
+    }
+    let previous = MARKOV_START;
+    path.forEach((_, idx) => {
+      const state = stateAt(path, idx, order);
+      add(previous, state);
+      previous = state;
+    });
+    add(previous, terminal);
+  });
+
+  return counts;
+}
+
+function toProbabilities(counts: Transitions): Transitions {
+  const probabilities: Transitions = new Map();
+  counts.forEach((row, from) => {
+    const total = Array.from(row.values()).reduce((sum, c) => sum + c, 0);
+    probabilities.set(from, new Map(Array.from(row, ([to, c]) => [to, c / total])));
+  });
+  return probabilities;
+}
+
+/**
+ * Probability of reaching the conversion state from the start state. States in `removed` are redirected
+ * to the null state, which is how removal effects are measured.
+ */
+function conversionProbability(probabilities: Transitions, removed: (state: string) => boolean): number {
+  const value = new Map<string, number>();
+  const valueOf = (state: string) =>
+    state === MARKOV_CONVERSION ? 1 : state === MARKOV_NULL || removed(state) ? 0 : (value.get(state) ?? 0);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let delta = 0;
+    probabilities.forEach((row, from) => {
+      if (removed(from)) return;
+      let next = 0;
+      row.forEach((p, to) => {
+        next += p * valueOf(to);
+      });
+      delta = Math.max(delta, Math.abs(next - (value.get(from) ?? 0)));
+      value.set(from, next);
+    });
+    if (delta < TOLERANCE) break;
+  }
+
+  return value.get(MARKOV_START) ?? 0;
+}
+
+/**
+ * Builds an order-k transition matrix from the simulated journeys and computes each channel's removal
+ * effect: the relative drop in conversion probability when every state containing the channel leads to
+ * the null state instead.
+ */
+export function buildMarkovModel(
+  journeys: Journey[],
+  channels: Channel[],
+  windows: AttributionWindows,
+  order: MarkovOrder = 1,
+): MarkovResult {
+  const paths = journeys.map((journey) => ({ path: observedPath(journey, windows), converted: journey.converted }));
+  const counts = countTransitions(paths, order);
+  const probabilities = toProbabilities(counts);
+
+  const baseProbability = conversionProbability(probabilities, () => false);
+
+  const removalEffects = channels.map((channel) => {
+    const removedProbability = conversionProbability(probabilities, (state) =>
+      stateChannels(state).includes(channel),
+    );
+    return {
+      channel,
+      removalEffect: baseProbability > 0 ? Math.max(0, 1 - removedProbability / baseProbability) : 0,
+      share: 0,
+    };
+  });
+
+  const totalEffect = removalEffects.reduce((sum, r) => sum + r.removalEffect, 0) || 1;
+  removalEffects.forEach((r) => {
+    r.share = r.removalEffect / totalEffect;
+  });
+
+  const transitions = Array.from(probabilities, ([from, row]) =>
+    Array.from(row, ([to, probability]) => ({ from, to, probability, count: counts.get(from)!.get(to)! })),
+  ).flat();
+
+  const states = [MARKOV_START, ...Array.from(probabilities.keys()).filter((state) => state !== MARKOV_START)];
+
+  return { order, states, transitions, conversionProbability: baseProbability, removalEffects };
+}
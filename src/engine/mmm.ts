@@ -0,0 +1,305 @@
+import { adstockWeights, applyAdstock } from "./adstock";
+import { DEFAULT_BASELINE } from "./baseline";
+import { calendarEffects } from "./calendar";
+import { liftTestPriors } from "./calibration";
+import { WEEKS_PER_MONTH } from "./constants";
+import { stageVolume } from "./funnel";
+import { haloFlows } from "./halo";
+import {
+  DEFAULT_SEED,
+  createRng,
+  gamma,
+  normal,
+  positiveNormal,
+  quantile,
+  scenarioRng,
+  streamRng,
+  type Rng,
+} from "./random";
+import { noiseFactor } from "./response";
+import { modelChannelEconomics } from "./economics";
+import type {
+  Channel,
+  MmmChannelPosterior,
+  MmmDataset,
+  MmmFit,
+  MmmPrior,
+  PosteriorInterval,
+  SimulationInput,
+} from "./types";
+
+export const MMM_HISTORY_WEEKS = 104;
+
+/** The fitted model does not know the true curve and assumes this multiple of average weekly spend. */
+const ASSUMED_HALF_SATURATION = 1.5;
+
+export interface MmmOptions {
+  iterations?: number;
+  burnIn?: number;
+  thin?: number;
+  seed?: number;
+  /** Informative priors on monthly contribution, e.g. from lift tests. Channels without one get a weak prior. */
+  priors?: Record<Channel, MmmPrior>;
+}
+
+/** Geometric adstock, normalized so that constant spend maps to itself. */
+export function geometricAdstock(spend: number[], decay: number): number[] {
+  let carry = 0;
+  return spend.map((value) => {
+    carry = value + decay * carry;
+    return carry * (1 - decay);
+  });
+}
+
+function hill(value: number, halfSaturation: number, slope = 1): number {
+  if (value <= 0) return 0;
+  const scaled = Math.pow(value / halfSaturation, slope);
+  return scaled / (1 + scaled);
+}
+
+/**
+ * Generates two years of weekly spend and conversions from known ground truth: each channel's spend is
+ * flighted around the scenario's planned level, carried over with the channel's adstock, saturated on the
+ * channel's Hill curve, and scaled so that planned spend yields the channel's true incremental conversions. The
+ * scenario's organic demand (branded searches included, since they happen without spend) and Gaussian noise
+ * (scaled by the scenario's noise level) are added on top. The history ends the week
+ * before the simulated series, and its marketing calendar scales the baseline and each channel's media effect.
+ * Each halo effect adds a share of the causing channel's media effect `lagWeeks` later.
+ */
+export function generateMmmDataset(input: SimulationInput, weeks = MMM_HISTORY_WEEKS, rng?: Rng): MmmDataset {
+  const random = rng ?? scenarioRng(input, "mmm-data");
+  const economics = modelChannelEconomics(input);
+  const channels = economics.map((e) => e.channel);
+  const calendar = calendarEffects(input, weeks, -weeks);
+
+  const spend: Record<Channel, number[]> = {};
+  const plannedWeeklySpend: Record<Channel, number> = {};
+  const mediaEffect = new Array<number>(weeks).fill(0);
+  const directEffect: Record<Channel, number[]> = {};
+
+  economics.forEach((e) => {
+    const definition = input.channels.find((ch) => ch.name === e.channel)!;
+    const planned = e.spend / WEEKS_PER_MONTH;
+    plannedWeeklySpend[e.channel] = planned;
+
+    const history = Array.from({ length: weeks }, () =>
+      random() < 0.04 + 0.08 * definition.prospecting ? 0 : planned * Math.exp(0.55 * normal(random) - 0.15),
+    );
+    spend[e.channel] = history;
+
+    const halfSaturation = Math.max(definition.saturation.halfSaturation / WEEKS_PER_MONTH, 1);
+    const slope = definition.saturation.slope;
+    const coefficient =
+      e.incrementalConversions / WEEKS_PER_MONTH / Math.max(hill(planned, halfSaturation, slope), 1e-9);
+
+    const carryOver = adstockWeights(input.adstockType ?? "geometric", definition.adstock);
+    directEffect[e.channel] = applyAdstock(history, carryOver, planned).map(
+      (value, t) => coefficient * hill(value, halfSaturation, slope) * calendar.response[e.channel][t],
+    );
+    directEffect[e.channel].forEach((value, t) => {
+      mediaEffect[t] += value;
+    });
+  });
+
+  haloFlows(input).forEach((flow) => {
+    const source = directEffect[flow.from];
+    const steady = (economics.find((e) => e.channel === flow.from)?.incrementalConversions ?? 0) / WEEKS_PER_MONTH;
+    for (let t = 0; t < weeks; t++) {
+      const lagged = t - flow.lagWeeks;
+      mediaEffect[t] += Math.max(flow.strength, 0) * (lagged >= 0 ? source[lagged] : steady);
+    }
+  });
+
+  const meanMedia = mediaEffect.reduce((sum, v) => sum + v, 0) / Math.max(weeks, 1);
+  const baseline = ((input.baseline ?? DEFAULT_BASELINE).organicConversions * stageVolume(input)) / WEEKS_PER_MONTH;
+  const sigma = (meanMedia + baseline) * noiseFactor(input.noise) * 0.6;
+
+  const conversions = mediaEffect.map((value, t) =>
+    Math.max(0, baseline * calendar.demand[t] + value + sigma * normal(random)),
+  );
+
+  return {
+    weeks,
+    channels,
+    spend,
+    conversions,
+    plannedWeeklySpend,
+    ...(input.calendar && { demand: calendar.demand, response: calendar.response }),
+  };
+}
+
+function summarize(draws: number[]): PosteriorInterval {
+  const sorted = draws.slice().sort((a, b) => a - b);
+  return {
+    mean: draws.reduce((sum, v) => sum + v, 0) / Math.max(draws.length, 1),
+    low: quantile(sorted, 0.1),
+    high: quantile(sorted, 0.9),
+  };
+}
+
+/**
+ * Fits a Bayesian media mix model to a weekly dataset with MCMC:
+ *
+ *   conversions_t = baseline · d_t + Σ_c β_c · r_c,t · hill(adstock(spend_c, θ_c))_t + ε_t,   ε_t ~ Normal(0, σ²)
+ *
+ * where d_t and r_c,t are the dataset's known calendar multipliers on demand and media response (1 when absent),
+ * playing the part of the seasonality and holiday controls in a production MMM.
+ *
+ * β and the baseline are drawn by Gibbs steps from positive-truncated normal conditionals, σ² from its
+ * inverse-gamma conditional, and each adstock decay θ_c by a random-walk Metropolis step under a Beta(2, 2)
+ * prior. Saturation uses a fixed Hill curve at an assumed half-saturation point. Returns posterior means and
+ * 80% credible intervals for each channel's monthly contribution at planned spend.
+ */
+export function fitBayesianMmm(dataset: MmmDataset, options: MmmOptions = {}): MmmFit {
+  const { iterations = 2000, burnIn = 500, thin = 3, seed = 99, priors = {} } = options;
+  const rng = createRng(seed);
+  const { weeks, channels, conversions: y } = dataset;
+  const n = channels.length;
+
+  const meanY = y.reduce((sum, v) => sum + v, 0) / Math.max(weeks, 1);
+  const halfSaturation = channels.map((ch) => {
+    const history = dataset.spend[ch];
+    const average = history.reduce((sum, v) => sum + v, 0) / Math.max(weeks, 1);
+    return Math.max(average, 1) * ASSUMED_HALF_SATURATION;
+  });
+  const plannedResponse = channels.map((ch, c) => hill(dataset.plannedWeeklySpend[ch] ?? 0, halfSaturation[c]));
+
+  const demand = dataset.demand ?? new Array<number>(weeks).fill(1);
+  const features = (c: number, decay: number) =>
+    geometricAdstock(dataset.spend[channels[c]], decay).map(
+      (value, t) => hill(value, halfSaturation[c]) * (dataset.response?.[channels[c]]?.[t] ?? 1),
+    );
+
+  // Priors on β, translated from monthly contribution at planned spend where one is given.
+  const priorMean = channels.map((ch, c) => {
+    const prior = priors[ch];
+    return prior ? prior.mean / WEEKS_PER_MONTH / Math.max(plannedResponse[c], 1e-9) : 0;
+  });
+  const priorSd = channels.map((ch, c) => {
+    const prior = priors[ch];
+    return prior ? Math.max(prior.sd, 1e-6) / WEEKS_PER_MONTH / Math.max(plannedResponse[c], 1e-9) : 3 * meanY;
+  });
+
+  let decay = channels.map(() => 0.5);
+  let x = channels.map((_, c) => features(c, decay[c]));
+  const beta = priorMean.map((mean) => Math.max(mean, meanY / Math.max(n, 1)));
+  let baseline = meanY * 0.3;
+  let sigma2 = Math.max(meanY * 0.1, 1e-6) ** 2;
+
+  const residual = y.map((value, t) => value - baseline * demand[t] - beta.reduce((sum, b, c) => sum + b * x[c][t], 0));
+  const demandSquares = demand.reduce((sum, d) => sum + d * d, 0) || 1;
+  const sumSquares = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0);
+
+  const contributionDraws = channels.map(() => [] as number[]);
+  const decayDraws = channels.map(() => [] as number[]);
+  const betaDraws = channels.map(() => [] as number[]);
+  const baselineDraws: number[] = [];
+  const sigmaDraws: number[] = [];
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let c = 0; c < n; c++) {
+      let xx = 0;
+      let xr = 0;
+      for (let t = 0; t < weeks; t++) {
+        const partial = residual[t] + beta[c] * x[c][t];
+        xx += x[c][t] * x[c][t];
+        xr += x[c][t] * partial;
+      }
+      const precision = xx / sigma2 + 1 / priorSd[c] ** 2;
+      const mean = (xr / sigma2 + priorMean[c] / priorSd[c] ** 2) / precision;
+      const next = positiveNormal(rng, mean, 1 / Math.sqrt(precision));
+      for (let t = 0; t < weeks; t++) residual[t] += (beta[c] - next) * x[c][t];
+      beta[c] = next;
+    }
+
+    const partialMean = residual.reduce((sum, r, t) => sum + r * demand[t], 0) / demandSquares + baseline;
+    const nextBaseline = positiveNormal(rng, partialMean, Math.sqrt(sigma2 / demandSquares));
+    for (let t = 0; t < weeks; t++) residual[t] += (baseline - nextBaseline) * demand[t];
+    baseline = nextBaseline;
+
+    sigma2 = (0.01 * meanY * meanY + sumSquares(residual) / 2) / gamma(rng, 1 + weeks / 2);
+
+    for (let c = 0; c < n; c++) {
+      const proposed = Math.min(0.95, Math.max(0.01, decay[c] + 0.08 * normal(rng)));
+      const proposedX = features(c, proposed);
+      const proposedResidual = residual.map((r, t) => r + beta[c] * (x[c][t] - proposedX[t]));
+      const logRatio =
+        (sumSquares(residual) - sumSquares(proposedResidual)) / (2 * sigma2) +
+        Math.log(proposed * (1 - proposed)) -
+        Math.log(decay[c] * (1 - decay[c]));
+      if (Math.log(rng()) < logRatio) {
+        decay = decay.map((d, idx) => (idx === c ? proposed : d));
+        x = x.map((series, idx) => (idx === c ? proposedX : series));
+        proposedResidual.forEach((r, t) => {
+          residual[t] = r;
+        });
+      }
+    }
+
+    if (iteration >= burnIn && (iteration - burnIn) % thin === 0) {
+      channels.forEach((_, c) => {
+        contributionDraws[c].push(beta[c] * plannedResponse[c] * WEEKS_PER_MONTH);
+        decayDraws[c].push(decay[c]);
+        betaDraws[c].push(beta[c]);
+      });
+      baselineDraws.push(baseline);
+      sigmaDraws.push(Math.sqrt(sigma2));
+    }
+  }
+
+  const posterior: MmmChannelPosterior[] = channels.map((channel, c) => ({
+    channel,
+    contribution: summarize(contributionDraws[c]),
+    decay: summarize(decayDraws[c]),
+    coefficient: summarize(betaDraws[c]),
+  }));
+
+  const baselineSummary = summarize(baselineDraws);
+  const meanX = channels.map((_, c) => features(c, posterior[c].decay.mean));
+  const fitted = y.map(
+    (_, t) =>
+      baselineSummary.mean * demand[t] + posterior.reduce((sum, p, c) => sum + p.coefficient.mean * meanX[c][t], 0),
+  );
+  const totalSquares = sumSquares(y.map((v) => v - meanY));
+  const rSquared = totalSquares > 0 ? 1 - sumSquares(y.map((v, t) => v - fitted[t])) / totalSquares : 0;
+
+  return {
+    channels: posterior,
+    baseline: baselineSummary,
+    sigma: summarize(sigmaDraws).mean,
+    rSquared,
+    draws: baselineDraws.length,
+    weeks,
+  };
+}
+
+/**
+ * Scenario fields the MMM history and fit read. The fit uses true incremental conversions, which do not depend on the
+ * attribution model, windows or budget settings, so changing any field outside this list leaves it as it is.
+ */
+export const MMM_SCENARIO_FIELDS = [
+  "channels",
+  "spend",
+  "seed",
+  "noise",
+  "adstockType",
+  "calendar",
+  "baseline",
+  "halo",
+  "calibration",
+  "revenue",
+  "funnel",
+] as const satisfies readonly (keyof SimulationInput)[];
+
+/**
+ * Generates the scenario's MMM history and fits it, with both seeded from the scenario's seed. Lift tests in
+ * `input.calibration` become priors on their channels' contributions, unless `options.priors` overrides them.
+ */
+export function fitScenarioMmm(input: SimulationInput, options: MmmOptions = {}): MmmFit {
+  const seed = streamRng(input.seed ?? DEFAULT_SEED, "mmm-fit")() * 2 ** 32;
+  return fitBayesianMmm(generateMmmDataset(input), {
+    seed,
+    ...options,
+    priors: { ...liftTestPriors(input), ...options.priors },
+  });
+}
@@ -0,0 +1,19 @@
+import { fitScenarioMmm, type MmmOptions } from "./mmm";
+import type { MmmFit, SimulationInput } from "./types";
+
+export interface MmmWorkerRequest {
+  id: number;
+  input: SimulationInput;
+  options?: MmmOptions;
+}
+
+export interface MmmWorkerResponse {
+  id: number;
+  fit: MmmFit;
+}
+
+self.onmessage = (event: MessageEvent<MmmWorkerRequest>) => {
+  const { id, input, options } = event.data;
+  const fit = fitScenarioMmm(input, options);
+  self.postMessage({ id, fit } satisfies MmmWorkerResponse);
+};
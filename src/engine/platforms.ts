@@ -0,0 +1,84 @@
+import type {
+  Channel,
+  ChannelOutput,
+  Journey,
+  PlatformChannelSetting,
+  PlatformReport,
+  PlatformReportRow,
+  PlatformReporting,
+  SimulationInput,
+  TouchpointType,
+} from "./types";
+
+/**
+ * Each channel's reporting tool and its default attribution setting. Search platforms count clicks only; YouTube's
+ * view window is Google's engaged-view window. Channels without an ad platform (reviews, podcasts, events) have none.
+ */
+export const PLATFORM_REPORTING: Partial<Record<Channel, PlatformReporting>> = {
+  Meta: { platform: "Meta Ads Manager", clickWindowDays: 7, viewWindowDays: 1 },
+  "Google Search": { platform: "Google Ads", clickWindowDays: 30, viewWindowDays: 0 },
+  LinkedIn: { platform: "LinkedIn Campaign Manager", clickWindowDays: 30, viewWindowDays: 7 },
+  YouTube: { platform: "Google Ads", clickWindowDays: 30, viewWindowDays: 3 },
+  TikTok: { platform: "TikTok Ads Manager", clickWindowDays: 7, viewWindowDays: 1 },
+  "Microsoft Ads": { platform: "Microsoft Advertising", clickWindowDays: 30, viewWindowDays: 1 },
+};
+
+/**
+ * Simulates each platform's self-reported conversions and compares them with the de-duplicated total. A platform
+ * sees all of its own clicks and views, including ones the site's tracking misses, and claims every converted
+ * journey with a click by one of its channels inside that channel's click window, or failing that a view inside its
+ * view window. A platform that runs several channels (Google Ads for Search and YouTube) de-duplicates across them
+ * and claims a journey once, but every claim is a whole conversion, so the platforms' total runs above the real one.
+ */
+export function buildPlatformReport(
+  input: SimulationInput,
+  journeys: Journey[],
+  outputs: ChannelOutput[],
+): PlatformReport {
+  const converted = journeys.filter((j) => j.converted && j.conversionTime !== null);
+  const deduplicated = outputs.reduce((sum, o) => sum + o.attributedConversions, 0);
+  const perJourney = deduplicated / Math.max(converted.length, 1);
+
+  const settingsByPlatform = input.channels.reduce<Map<string, PlatformChannelSetting[]>>((acc, definition) => {
+    const reporting = PLATFORM_REPORTING[definition.name];
+    if (!reporting) return acc;
+    const { platform, ...windows } = reporting;
+    acc.set(platform, [...(acc.get(platform) ?? []), { channel: definition.name, ...windows }]);
+    return acc;
+  }, new Map());
+
+  const rows = [...settingsByPlatform].map(([platform, settings]): PlatformReportRow => {
+    const touched = (journey: Journey, type: TouchpointType) =>
+      settings.some((setting) => {
+        const days = type === "click" ? setting.clickWindowDays : setting.viewWindowDays;
+        return (
+          days > 0 &&
+          journey.touchpoints.some(
+            (tp) =>
+              tp.channel === setting.channel && tp.type === type && journey.conversionTime! - tp.timestamp <= days,
+          )
+        );
+      });
+
+    let clicks = 0;
+    let views = 0;
+    converted.forEach((journey) => {
+      if (touched(journey, "click")) clicks++;
+      else if (touched(journey, "view")) views++;
+    });
+
+    return {
+      platform,
+      channels: settings,
+      clickConversions: clicks * perJourney,
+      viewConversions: views * perJourney,
+      reported: (clicks + views) * perJourney,
+      deduplicated: outputs
+        .filter((o) => settings.some((setting) => setting.channel === o.channel))
+        .reduce((sum, o) => sum + o.attributedConversions, 0),
+    };
+  });
+
+  const reported = rows.reduce((sum, row) => sum + row.reported, 0);
+  return { rows, reported, deduplicated, overCount: reported / Math.max(deduplicated, 1e-9) - 1 };
+}
@@ -0,0 +1,107 @@
+import { weeklyMediaResponse } from "./adstock";
+import { modelChannelEconomics } from "./economics";
+import { GEO_REGIONS, REGION_SIZE_SD, REGION_TREND_SD, regionVolatility } from "./experiments";
+import type { ChannelTestPlan, LiftTestDesign, SimulationInput } from "./types";
+
+/**
+ * Two-sided significance level the planner designs for. This is stricter than the geo-lift readout's p10 > 0 check,
+ * which leaves room for the placebo intervals being wider than a normal approximation.
+ */
+export const POWER_ALPHA = 0.1;
+
+/** Probability of detecting the expected lift a recommended design must reach. */
+export const POWER_TARGET = 0.8;
+
+/** Shortest and longest tests the planner considers; shorter tests barely see past the channel's carry-over. */
+export const MIN_TEST_WEEKS = 2;
+export const MAX_TEST_WEEKS = 12;
+
+/** z-scores for POWER_ALPHA (two-sided) and POWER_TARGET. */
+const Z_ALPHA = 1.645;
+const Z_POWER = 0.8416;
+
+/** Standard normal CDF (Abramowitz–Stegun 7.1.26 approximation of erf). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Sizes a geo holdout for every channel, using the same assumptions `simulateGeoLift` simulates under. For each
+ * number of treated regions (up to a third of GEO_REGIONS) and test length:
+ *
+ * - the expected lift is the channel's incremental conversions in the treated regions, fading out along its
+ *   adstock curve once spend stops;
+ * - the standard error combines the weekly volatility of the treated regions and of the controls that form the
+ *   counterfactual, summed over the test, the error in the counterfactual's level fitted on `preWeeks`, and the
+ *   regions' trends drifting apart, which makes long pre-periods and long tests costlier than they look.
+ *
+ * Treated regions are assumed to hold their average share of volume. The recommended design is the one that
+ * reaches POWER_TARGET while giving up the fewest conversions; when none does, the most powerful design.
+ */
+export function planLiftTests(input: SimulationInput, preWeeks = 12): ChannelTestPlan[] {
+  const planned = { ...input, flights: [], calendar: undefined };
+  const media = weeklyMediaResponse(planned, MAX_TEST_WEEKS);
+  const economics = modelChannelEconomics(planned);
+  const national = Object.values(media.steadyConversions).reduce((sum, v) => sum + v, 0);
+  const maxTreated = Math.floor(GEO_REGIONS / 3);
+
+  return input.channels.map((definition) => {
+    const channel = definition.name;
+    const e = economics.find((item) => item.channel === channel);
+    const incrementalRatio = e && e.conversions > 0 ? e.incrementalConversions / e.conversions : 0;
+    const steady = media.steadyConversions[channel] ?? 0;
+    const dark = weeklyMediaResponse(
+      { ...planned, flights: [{ channel, startWeek: 1, weeks: MAX_TEST_WEEKS, change: -1 }] },
+      MAX_TEST_WEEKS,
+    );
+    // National incremental conversions lost by the end of each week of a holdout.
+    let cumulative = 0;
+    const cumulativeLift = dark.conversions[channel].map(
+      (value) => (cumulative += (steady - value) * incrementalRatio),
+    );
+
+    const designs: LiftTestDesign[] = [];
+    for (let treatedRegions = 1; treatedRegions <= maxTreated; treatedRegions++) {
+      const share = treatedRegions / GEO_REGIONS;
+      const volume = national * share;
+      const weeklySd =
+        volume * Math.hypot(regionVolatility(input.noise, share), regionVolatility(input.noise, 1 - share));
+      // Relative trend gap between the treated and control groups; uneven region sizes shrink the effective count.
+      const concentration = Math.exp(REGION_SIZE_SD ** 2);
+      const trendGap =
+        REGION_TREND_SD * Math.sqrt(concentration / treatedRegions + concentration / (GEO_REGIONS - treatedRegions));
+
+      for (let testWeeks = MIN_TEST_WEEKS; testWeeks <= MAX_TEST_WEEKS; testWeeks++) {
+        // The counterfactual's level is fitted around the middle of the pre-period, so a trend gap grows into an
+        // error that is largest at the end of the test.
+        const standardError = Math.hypot(
+          weeklySd * Math.sqrt(testWeeks + (testWeeks * testWeeks) / preWeeks),
+          (volume * trendGap * testWeeks * (preWeeks + testWeeks)) / 2,
+        );
+        const expectedLift = share * cumulativeLift[testWeeks - 1];
+        const mde = (Z_ALPHA + Z_POWER) * standardError;
+        designs.push({
+          channel,
+          treatedRegions,
+          testWeeks,
+          power: normalCdf(expectedLift / Math.max(standardError, 1e-9) - Z_ALPHA),
+          expectedLift,
+          mde,
+          relativeMde: mde / Math.max(volume * testWeeks, 1e-9),
+          spendWithheld: share * media.plannedSpend[channel] * testWeeks,
+        });
+      }
+    }
+
+    const powered = designs.filter((d) => d.power >= POWER_TARGET);
+    const recommended = powered.length
+      ? powered.reduce((best, d) => (d.expectedLift < best.expectedLift ? d : best))
+      : designs.reduce((best, d) => (d.power > best.power ? d : best));
+
+    return { channel, designs, recommended, feasible: powered.length > 0 };
+  });
+}
@@ -0,0 +1,103 @@
+import type { SimulationInput } from "./types";
+
+/** Uniform random number generator on [0, 1). */
+export type Rng = () => number;
+
+/** Seed used when a scenario does not set one. */
+export const DEFAULT_SEED = 20240917;
+
+/** Small, fast seeded generator (mulberry32). The same seed always yields the same sequence. */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generator for one named stochastic part of the engine ("journeys", "mmm-data", ...), derived from `seed`. Each
+ * part gets its own stream, so the same seed reproduces every result and a part that draws more or fewer numbers
+ * does not shift the draws of the others.
+ */
+export function streamRng(seed: number, stream: string): Rng {
+  // FNV-1a hash of the stream name, mixed with the seed.
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < stream.length; i++) {
+    hash = Math.imul(hash ^ stream.charCodeAt(i), 0x01000193);
+  }
+  return createRng(Math.imul(hash ^ (seed >>> 0), 0x9e3779b1));
+}
+
+/** `streamRng` seeded from the scenario's seed. */
+export function scenarioRng(input: Pick<SimulationInput, "seed">, stream: string): Rng {
+  return streamRng(input.seed ?? DEFAULT_SEED, stream);
+}
+
+export function exponential(rng: Rng, mean: number): number {
+  return -Math.log(1 - rng()) * mean;
+}
+
+/** Picks an index with probability proportional to its weight. */
+export function weightedIndex(rng: Rng, weights: number[]): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let target = rng() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/** Standard normal draw (Box–Muller). */
+export function normal(rng: Rng): number {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Gamma(shape, 1) draw (Marsaglia–Tsang). */
+export function gamma(rng: Rng, shape: number): number {
+  if (shape < 1) return gamma(rng, shape + 1) * Math.pow(rng(), 1 / shape);
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = normal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+/** Normal(mean, sd) draw truncated to [0, ∞), using exponential rejection in the tail (Robert, 1995). */
+export function positiveNormal(rng: Rng, mean: number, sd: number): number {
+  const a = -mean / sd;
+  if (a <= 0) {
+    for (;;) {
+      const z = normal(rng);
+      if (z >= a) return mean + sd * z;
+    }
+  }
+  const lambda = (a + Math.sqrt(a * a + 4)) / 2;
+  for (;;) {
+    const z = a - Math.log(1 - rng()) / lambda;
+    if (rng() <= Math.exp(-((z - lambda) ** 2) / 2)) return mean + sd * z;
+  }
+}
+
+/** Value at quantile `q` (0–1) of an already sorted sample. */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
@@ -0,0 +1,56 @@
+import type { ChannelDefinition, NoiseLevel, SaturationLevel, SaturationParams } from "./types";
+
+/**
+ * Shortcut curves for the three saturation levels: the half-saturation point as a multiple of the channel's
+ * default monthly spend, and the Hill slope.
+ */
+export const SATURATION_PRESETS: Record<SaturationLevel, { halfSaturationMultiple: number; slope: number }> = {
+  low: { halfSaturationMultiple: 5, slope: 1 },
+  medium: { halfSaturationMultiple: 2.5, slope: 1 },
+  high: { halfSaturationMultiple: 1.25, slope: 1 },
+};
+
+export function saturationPreset(definition: ChannelDefinition, level: SaturationLevel): SaturationParams {
+  const preset = SATURATION_PRESETS[level];
+  return { halfSaturation: definition.defaultSpend * preset.halfSaturationMultiple, slope: preset.slope };
+}
+
+/**
+ * Spend, as a share of half-saturation, at which a curve with slope below 1 is measured for its diminishing
+ * returns. Its revenue per dollar grows without bound towards zero spend, so it has no best dollar to compare to.
+ */
+const CONCAVE_REFERENCE_SHARE = 0.1;
+
+/** Hill response at the given monthly spend: the share of the channel's maximum effect reached (0–1). */
+export function hillResponse(params: SaturationParams, spend: number): number {
+  if (spend <= 0) return 0;
+  const scaled = Math.pow(spend / Math.max(params.halfSaturation, 1), params.slope);
+  return scaled / (1 + scaled);
+}
+
+/**
+ * Share of modeled revenue retained after diminishing returns at the given monthly spend: revenue per dollar on
+ * the Hill curve relative to the curve's best revenue per dollar. With slope 1 that is the first dollar, so the
+ * penalty only grows with spend; steeper (S-shaped) curves also penalise spend too low to break through.
+ * Flatter curves (slope below 1) are scaled to match slope 1 at CONCAVE_REFERENCE_SHARE of half-saturation and
+ * capped at 1 below it, so the penalty moves smoothly as the slope crosses 1.
+ */
+export function saturationPenalty(params: SaturationParams, spend: number): number {
+  const slope = params.slope;
+  if (spend <= 0) return slope <= 1 ? 1 : 0;
+  const perDollar = (hillResponse(params, spend) * Math.max(params.halfSaturation, 1)) / spend;
+  if (slope < 1) {
+    const reference = CONCAVE_REFERENCE_SHARE;
+    const atReference = Math.pow(reference, slope - 1) / (1 + Math.pow(reference, slope));
+    return Math.min(1, perDollar / (atReference * (1 + reference)));
+  }
+  // Peak of u^(s-1) / (1 + u^s), reached at u^s = s - 1 (or as u → 0 when s = 1).
+  const peak = slope === 1 ? 1 : Math.pow(slope - 1, (slope - 1) / slope) / slope;
+  return Math.min(1, perDollar / peak);
+}
+
+export function noiseFactor(level: NoiseLevel): number {
+  if (level === "low") return 0.05;
+  if (level === "medium") return 0.12;
+  return 0.22;
+}
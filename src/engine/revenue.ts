@@ -0,0 +1,76 @@
+import type { Channel, DealSegment, Quantiles, RevenueModel, SimulationInput } from "./types";
+
+/** z-score of the 90th percentile of a standard normal. */
+const Z_90 = 1.2816;
+
+/** B2B SaaS deal sizes: mostly self-serve plans, with a long tail of enterprise contracts. */
+export const B2B_DEAL_SEGMENTS: DealSegment[] = [
+  { name: "Self-serve", share: 0.6, value: 3000 },
+  { name: "Mid-market", share: 0.3, value: 15000 },
+  { name: "Enterprise", share: 0.1, value: 60000 },
+];
+
+/** $500 a conversion, the value the simulator's channel efficiencies were tuned at. */
+export const DEFAULT_REVENUE_MODEL: RevenueModel = {
+  distribution: "lognormal",
+  averageValue: 500,
+  sigma: 0.6,
+  segments: B2B_DEAL_SEGMENTS,
+};
+
+/** The mix's segments with shares normalized to sum to 1; empty when no segment has a positive share. */
+function normalizedSegments(segments: DealSegment[] = []): DealSegment[] {
+  const total = segments.reduce((sum, segment) => sum + Math.max(segment.share, 0), 0);
+  if (total <= 0) return [];
+  return segments.map((segment) => ({ ...segment, share: Math.max(segment.share, 0) / total }));
+}
+
+/** Mean revenue per conversion before channel multipliers. */
+export function averageDealValue(model: RevenueModel): number {
+  if (model.distribution === "segments") {
+    const segments = normalizedSegments(model.segments);
+    if (segments.length) return segments.reduce((sum, segment) => sum + segment.share * Math.max(segment.value, 0), 0);
+  }
+  return Math.max(model.averageValue, 0);
+}
+
+/** Mean revenue per conversion for one channel: the average deal value times the channel's multiplier. */
+export function dealValue(input: SimulationInput, channel: Channel): number {
+  const model = input.revenue ?? DEFAULT_REVENUE_MODEL;
+  return averageDealValue(model) * Math.max(model.channelMultipliers?.[channel] ?? 1, 0);
+}
+
+/** Coefficient of variation of a single deal's value, before channel multipliers (which leave it unchanged). */
+export function dealValueSpread(model: RevenueModel): number {
+  const mean = averageDealValue(model);
+  if (mean <= 0) return 0;
+  if (model.distribution === "segments") {
+    const segments = normalizedSegments(model.segments);
+    const variance = segments.reduce((sum, segment) => sum + segment.share * (segment.value - mean) ** 2, 0);
+    return Math.sqrt(variance) / mean;
+  }
+  const sigma = Math.max(model.sigma ?? 0, 0);
+  return Math.sqrt(Math.exp(sigma * sigma) - 1);
+}
+
+/** p10, median and p90 of a single deal's value, before channel multipliers. */
+export function dealValueQuantiles(model: RevenueModel): Quantiles {
+  if (model.distribution === "segments") {
+    const segments = normalizedSegments(model.segments).sort((a, b) => a.value - b.value);
+    if (segments.length) {
+      const at = (q: number) => {
+        let cumulative = 0;
+        for (const segment of segments) {
+          cumulative += segment.share;
+          if (cumulative >= q) return segment.value;
+        }
+        return segments[segments.length - 1].value;
+      };
+      return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+    }
+  }
+  // A lognormal with the given mean: the log-scale mean sits sigma²/2 below log(mean).
+  const sigma = Math.max(model.sigma ?? 0, 0);
+  const mu = Math.log(Math.max(averageDealValue(model), 1e-9)) - (sigma * sigma) / 2;
+  return { p10: Math.exp(mu - Z_90 * sigma), p50: Math.exp(mu), p90: Math.exp(mu + Z_90 * sigma) };
+}
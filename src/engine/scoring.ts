@@ -0,0 +1,88 @@
+import { modelChannelEconomics } from "./economics";
+import { haloFlows, haloOut } from "./halo";
+import { simulateAttribution, type FittedModels } from "./simulate";
+import type { AttributionModel, Channel, GroundTruthReport, ModelScore, SimulationInput } from "./types";
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = [
+  "last_click",
+  "position_based",
+  "time_decay",
+  "markov",
+  "shapley",
+  "bayesian_mmm",
+];
+
+/** True incremental conversions a month below which a relative bias means nothing; absolute error still applies. */
+export const MIN_BIAS_TRUTH = 1;
+
+/** 1-based rank of each value, largest first. */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, idx) => ({ value, idx })).sort((a, b) => b.value - a.value);
+  const result = new Array<number>(values.length);
+  order.forEach(({ idx }, position) => {
+    result[idx] = position + 1;
+  });
+  return result;
+}
+
+/** Spearman rank correlation; 1 when the two rankings agree, -1 when reversed. */
+function rankCorrelation(a: number[], b: number[]): number {
+  const n = a.length;
+  if (n < 2) return 1;
+  const squared = a.reduce((sum, rank, idx) => sum + (rank - b[idx]) ** 2, 0);
+  return 1 - (6 * squared) / (n * (n * n - 1));
+}
+
+/**
+ * Scores every attribution model against the simulator's ground truth. The true incremental conversions come from
+ * the data-generating economics, which the models never see: rule-based, Markov and Shapley models only walk the
+ * observed (partly untracked) journeys, and the MMM only sees aggregate weekly spend and conversions. A channel's
+ * truth includes the halo conversions it causes through other channels.
+ *
+ * A model's estimate for a channel is what it would report as that channel's contribution: attributed conversions,
+ * or the posterior mean for Bayesian MMM. The MMM is skipped when no fit is available.
+ */
+export function scoreModels(input: SimulationInput, fitted: FittedModels): GroundTruthReport {
+  const halo = haloOut(haloFlows(input));
+  const truth = modelChannelEconomics(input).map((e) => e.incrementalConversions + (halo[e.channel] ?? 0));
+  const trueRanks = ranks(truth);
+  const channels: Channel[] = input.channels.map((ch) => ch.name);
+
+  const models = ATTRIBUTION_MODELS.filter((model) => model !== "bayesian_mmm" || fitted.mmm).map(
+    (model): ModelScore => {
+      const outputs = simulateAttribution({ ...input, model }, fitted);
+      const estimates = channels.map((channel) => {
+        const output = outputs.find((o) => o.channel === channel);
+        if (!output) return 0;
+        return model === "bayesian_mmm" ? output.incrementalConversions : output.attributedConversions;
+      });
+      const estimatedRanks = ranks(estimates);
+
+      const scores = channels.map((channel, idx) => ({
+        channel,
+        truth: truth[idx],
+        estimate: estimates[idx],
+        bias: truth[idx] >= MIN_BIAS_TRUTH ? estimates[idx] / truth[idx] - 1 : null,
+        absoluteError: Math.abs(estimates[idx] - truth[idx]),
+        trueRank: trueRanks[idx],
+        estimatedRank: estimatedRanks[idx],
+      }));
+
+      return {
+        model,
+        channels: scores,
+        meanAbsoluteError: scores.reduce((sum, s) => sum + s.absoluteError, 0) / Math.max(scores.length, 1),
+        rankAccuracy: scores.filter((s) => s.trueRank === s.estimatedRank).length / Math.max(scores.length, 1),
+        rankCorrelation: rankCorrelation(trueRanks, estimatedRanks),
+      };
+    },
+  );
+
+  return {
+    truth: channels.reduce<Record<Channel, number>>((acc, channel, idx) => {
+      acc[channel] = truth[idx];
+      return acc;
+    }, {}),
+    models,
+  };
+}
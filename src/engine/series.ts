@@ -0,0 +1,121 @@
+import { weeklyMediaResponse, type WeeklyMediaResponse } from "./adstock";
+import { byChannel } from "./channels";
+import { scenarioRng } from "./random";
+import {
+  type Channel,
+  type ChannelDefinition,
+  type ChannelOutput,
+  type PerChannelWeeklyPoint,
+  type ScenarioSummary,
+  type SimulationInput,
+  type WeeklyPoint,
+} from "./types";
+
+export const WEEKS = 12;
+
+/** Weekly efficiency of a channel relative to a steady week, after carry-over of flighted spend. */
+function channelEfficiencyIndex(media: WeeklyMediaResponse, channel: Channel, idx: number): number {
+  const planned = media.plannedSpend[channel] ?? 0;
+  const steady = media.steadyConversions[channel] ?? 0;
+  if (!planned || !steady) return 1;
+  // A week with spend cut to (near) zero would have unbounded ROAS; floor the denominator at 10% of plan.
+  const weekSpend = Math.max(media.spend[channel][idx], planned * 0.1);
+  return media.conversions[channel][idx] / weekSpend / (steady / planned);
+}
+
+/** Blended weekly efficiency relative to a steady week, after carry-over of flighted spend. */
+function blendedEfficiencyIndex(media: WeeklyMediaResponse, idx: number): number {
+  const channels = Object.keys(media.spend);
+  const spend = channels.reduce((sum, ch) => sum + media.spend[ch][idx], 0);
+  const conversions = channels.reduce((sum, ch) => sum + media.conversions[ch][idx], 0);
+  const steadySpend = channels.reduce((sum, ch) => sum + media.plannedSpend[ch], 0);
+  const steadyConversions = channels.reduce((sum, ch) => sum + media.steadyConversions[ch], 0);
+  if (!spend || !steadySpend || !steadyConversions) return 1;
+  return conversions / spend / (steadyConversions / steadySpend);
+}
+
+export function buildWeeklySeries(
+  input: SimulationInput,
+  summary: ScenarioSummary,
+  media: WeeklyMediaResponse = weeklyMediaResponse(input, WEEKS),
+): WeeklyPoint[] {
+  const { window, noise, model } = input;
+  const baseRoas = summary.blendedROAS || 1;
+  const baseCac = summary.blendedCAC || 1;
+
+  const lagFactor = window === 7 ? 0.6 : window === 14 ? 0.8 : 1;
+  const noiseAmplitude = noise === "low" ? 0.04 : noise === "medium" ? 0.08 : 0.14;
+  const trendDrift = model === "bayesian_mmm" ? 0.015 : model === "time_decay" ? 0.01 : 0.005;
+
+  // Seeded by the scenario only, so moving a slider shifts the series instead of reshuffling its noise.
+  const rand = scenarioRng(input, "weekly-series");
+
+  const startingRoas = baseRoas * lagFactor;
+  const startingCac = baseCac / (lagFactor || 1);
+
+  return Array.from({ length: media.weeks }, (_, idx) => {
+    const weekIndex = idx + 1;
+    const centeredIndex = weekIndex - (media.weeks / 2 + 0.5);
+    const structuralTrend = 1 + trendDrift * centeredIndex;
+    const shock = 1 + (rand() - 0.5) * 2 * noiseAmplitude;
+    const mmmNoise = 1 + (rand() - 0.5) * noiseAmplitude * 1.5;
+
+    const carryOver = blendedEfficiencyIndex(media, idx);
+
+    const roas = startingRoas * structuralTrend * shock * mmmNoise * carryOver;
+    const cac = (startingCac * (2 - structuralTrend) * (1 + (rand() - 0.5) * noiseAmplitude)) / (carryOver || 1);
+
+    return {
+      week: `W${weekIndex}`,
+      ROAS: Number(roas.toFixed(2)),
+      CAC: Number(Math.max(cac, 1).toFixed(0)),
+    };
+  });
+}
+
+export function buildOptimizedWeeklySeries(weeklySeries: WeeklyPoint[], efficiencyGain: number): WeeklyPoint[] {
+  const uplift = 1 + efficiencyGain * 0.65;
+  const weeks = weeklySeries.length || 0;
+
+  return weeklySeries.map((point, idx) => {
+    const midPoint = weeks / 2 + 0.5;
+    const ramp = 0.9 + (idx + 1 - midPoint) * 0.01;
+    const boundedRamp = Math.max(0.8, Math.min(1.1, ramp));
+
+    return {
+      week: point.week,
+      ROAS: Number((point.ROAS * uplift * boundedRamp).toFixed(2)),
+      CAC: Number((point.CAC / (uplift * boundedRamp || 1)).toFixed(0)),
+    };
+  });
+}
+
+export function buildPerChannelWeeklySeries(
+  channels: ChannelDefinition[],
+  outputs: ChannelOutput[],
+  media: WeeklyMediaResponse,
+): PerChannelWeeklyPoint[] {
+  const { weeks } = media;
+  if (!weeks) return [];
+
+  const baseRoasByChannel = byChannel(channels, (ch) => {
+    const found = outputs.find((o) => o.channel === ch.name);
+    return found ? found.roas || 1 : 1;
+  });
+  const middleChannel = (channels.length - 1) / 2;
+
+  return Array.from({ length: weeks }, (_, idx) => {
+    const weekIndex = idx + 1;
+    const variance = 1 + (idx - weeks / 2) * 0.01;
+
+    const row = { week: `W${weekIndex}` } as PerChannelWeeklyPoint;
+
+    channels.forEach(({ name }, channelIdx) => {
+      const channelDrift = 1 + (channelIdx - middleChannel) * 0.03;
+      const roas = baseRoasByChannel[name] * variance * channelDrift * channelEfficiencyIndex(media, name, idx);
+      row[name] = Number(roas.toFixed(2));
+    });
+
+    return row;
+  });
+}
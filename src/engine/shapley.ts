@@ -0,0 +1,134 @@
+import { observedPath, type AttributionWindows } from "./attribution";
+import { DEFAULT_SEED, streamRng } from "./random";
+import type { Channel, Journey, ShapleyCoalition, ShapleyResult } from "./types";
+
+/** Registries up to this size are solved exactly over all 2^n coalitions; larger ones are sampled. */
+export const SHAPLEY_EXACT_LIMIT = 12;
+
+export const SHAPLEY_SAMPLE_PERMUTATIONS = 2000;
+
+/**
+ * Shapley attribution over the channel coalitions observed in simulated paths.
+ *
+ * A journey's coalition is the set of channels it touched (tracked, and inside its window when it converted).
+ * The value of a coalition S is the conversion rate of journeys whose coalition is a subset of S, less the rate of
+ * journeys with no observed touch, scaled to every journey: the conversions S would add if it were all a user
+ * could be reached by. Channels that only convert alongside others therefore share the lift of their joint
+ * coalitions by how much they raise the rate, not in proportion to volume. The values add up to the conversions
+ * above the no-touch rate; `simulateAttribution` uses them as shares of every attributable conversion.
+ *
+ * Coalitions are bigint bitmasks, so registries of any size work; beyond SHAPLEY_EXACT_LIMIT they are sampled.
+ */
+export function computeShapley(
+  journeys: Journey[],
+  channels: Channel[],
+  windows: AttributionWindows,
+  samples = SHAPLEY_SAMPLE_PERMUTATIONS,
+  seed = DEFAULT_SEED,
+): ShapleyResult {
+  const n = channels.length;
+  const bit = new Map(channels.map((channel, idx) => [channel, 1n << BigInt(idx)]));
+
+  const observed = new Map<bigint, { journeys: number; conversions: number }>();
+  journeys.forEach((journey) => {
+    const mask = observedPath(journey, windows).reduce((acc, channel) => acc | (bit.get(channel) ?? 0n), 0n);
+    const entry = observed.get(mask) ?? { journeys: 0, conversions: 0 };
+    entry.journeys += 1;
+    if (journey.converted) entry.conversions += 1;
+    observed.set(mask, entry);
+  });
+
+  const rate = (mask: bigint): number => {
+    let reached = 0;
+    let converted = 0;
+    observed.forEach((entry, coalition) => {
+      if ((coalition & mask) !== coalition) return;
+      reached += entry.journeys;
+      converted += entry.conversions;
+    });
+    return reached ? converted / reached : 0;
+  };
+  const untouched = rate(0n);
+
+  const valueCache = new Map<bigint, number>();
+  const value = (mask: bigint): number => {
+    const cached = valueCache.get(mask);
+    if (cached !== undefined) return cached;
+    const total = (rate(mask) - untouched) * journeys.length;
+    valueCache.set(mask, total);
+    return total;
+  };
+
+  const method = n <= SHAPLEY_EXACT_LIMIT ? "exact" : "sampled";
+  const phi = method === "exact" ? exactShapley(n, value) : sampledShapley(n, value, samples, seed);
+
+  // A small channel whose journeys convert no better than the ones without it can come out slightly negative; it
+  // keeps that value but no share of the credit.
+  const credited = phi.map((v) => Math.max(v, 0));
+  const total = credited.reduce((sum, v) => sum + v, 0) || 1;
+  const values = channels.map((channel, idx) => ({ channel, value: phi[idx], share: credited[idx] / total }));
+
+  const coalitions: ShapleyCoalition[] = Array.from(observed, ([mask, entry]) => ({
+    channels: channels.filter((channel) => mask & bit.get(channel)),
+    journeys: entry.journeys,
+    conversions: entry.conversions,
+    conversionRate: entry.journeys ? entry.conversions / entry.journeys : 0,
+    value: value(mask),
+  })).sort((a, b) => b.journeys - a.journeys);
+
+  return { method, values, coalitions };
+}
+
+function exactShapley(n: number, value: (mask: bigint) => number): number[] {
+  const factorial = [1];
+  for (let k = 1; k <= n; k++) factorial[k] = factorial[k - 1] * k;
+
+  const phi = new Array<number>(n).fill(0);
+  const full = 1n << BigInt(n);
+
+  for (let mask = 0n; mask < full; mask++) {
+    const size = popcount(mask);
+    const weight = (factorial[size] * factorial[n - size - 1]) / factorial[n];
+    const base = value(mask);
+    for (let i = 0; i < n; i++) {
+      const bit = 1n << BigInt(i);
+      if (mask & bit) continue;
+      phi[i] += weight * (value(mask | bit) - base);
+    }
+  }
+
+  return phi;
+}
+
+/** Monte Carlo estimate: average marginal contribution over random channel orderings. */
+function sampledShapley(n: number, value: (mask: bigint) => number, samples: number, seed: number): number[] {
+  const rng = streamRng(seed, "shapley");
+  const phi = new Array<number>(n).fill(0);
+  const order = Array.from({ length: n }, (_, idx) => idx);
+
+  for (let s = 0; s < samples; s++) {
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    let mask = 0n;
+    let previous = value(0n);
+    order.forEach((idx) => {
+      mask |= 1n << BigInt(idx);
+      const next = value(mask);
+      phi[idx] += next - previous;
+      previous = next;
+    });
+  }
+
+  return phi.map((v) => v / samples);
+}
+
+function popcount(mask: bigint): number {
+  let count = 0;
+  while (mask) {
+    mask &= mask - 1n;
+    count++;
+  }
+  return count;
+}
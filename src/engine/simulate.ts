@@ -0,0 +1,211 @@
+import { attributeJourneys, eligibleTouchpoints, isRuleBasedModel, touchWindows } from "./attribution";
+import { creditsBrandedSearch } from "./baseline";
+import { calibrateEstimate, liftTestPriors } from "./calibration";
+import { byChannel } from "./channels";
+import { modelChannelEconomics } from "./economics";
+import { stageCreditShares, stageValue } from "./funnel";
+import { haloFlows, haloOut, pathCredit } from "./halo";
+import { generateJourneys } from "./journeys";
+import { buildMarkovModel } from "./markov";
+import { DEFAULT_SEED } from "./random";
+import { SHAPLEY_SAMPLE_PERMUTATIONS, computeShapley } from "./shapley";
+import { MONTE_CARLO_DRAWS, Z_80, simulateUncertainty } from "./uncertainty";
+import type {
+  BudgetPlan,
+  Certainty,
+  Channel,
+  ChannelOutput,
+  Journey,
+  MarkovResult,
+  MmmFit,
+  PosteriorInterval,
+  ScenarioSummary,
+  ShapleyResult,
+  SimulationInput,
+} from "./types";
+
+/** Model results that `runScenario` computes once and shares, instead of each consumer recomputing them. */
+export interface FittedModels {
+  journeys?: Journey[];
+  markov?: MarkovResult;
+  shapley?: ShapleyResult;
+  /** Posterior from `fitBayesianMmm`; used for incremental conversions and certainty under `bayesian_mmm`. */
+  mmm?: MmmFit | null;
+  /** Posterior fitted without the scenario's lift tests as priors; reported alongside a calibrated `mmm`. */
+  uncalibratedMmm?: MmmFit | null;
+}
+
+/**
+ * Runs the channel-level simulation. Rule-based models get their attributed conversions by walking the
+ * simulated journeys, the Markov and Shapley models from removal effects and coalition values over the same
+ * journeys, and Bayesian MMM spreads modeled conversions in proportion to the posterior mean of each
+ * channel's incremental contribution.
+ *
+ * Lift tests in `input.calibration` enter the MMM as priors (see `fitScenarioMmm`). Every other incremental
+ * estimate is combined with its channel's test by precision weighting, using the Monte Carlo band as the model's
+ * uncertainty, which narrows the band as well as moving the estimate.
+ *
+ * Models other than the MMM also credit brand-search channels with the baseline conversions they capture, which
+ * inflates those channels' attributed conversions and ROAS without adding any incremental conversions, and split
+ * halo conversions between the channel that caused them and the one they arrived through. The MMM spreads halo
+ * conversions with everything else. A channel's structural incremental conversions include the halo it causes.
+ *
+ * With a funnel, conversions are counted at its conversion stage and revenue per conversion is the deal value
+ * times the chance of closing from that stage, so ROAS holds across stages while CAC becomes cost per lead, MQL
+ * and so on.
+ *
+ * `draws` sets the Monte Carlo draws behind the bands. With 0 the bands are left at zero and lift tests are not
+ * blended in, for callers that only need attributed conversions and ROAS.
+ */
+export function simulateAttribution(
+  input: SimulationInput,
+  fitted: FittedModels = {},
+  draws = MONTE_CARLO_DRAWS,
+): ChannelOutput[] {
+  const journeys = fitted.journeys ?? generateJourneys(input);
+  const mmm = input.model === "bayesian_mmm" ? fitted.mmm : null;
+
+  const flows = haloFlows(input);
+  const halo = haloOut(flows);
+  const modeled = modelChannelEconomics(input).map((economics) => {
+    const posterior = mmm?.channels.find((c) => c.channel === economics.channel);
+    return posterior
+      ? { ...economics, incrementalConversions: posterior.contribution.mean, posterior }
+      : {
+          ...economics,
+          incrementalConversions: economics.incrementalConversions + (halo[economics.channel] ?? 0),
+          posterior: undefined,
+        };
+  });
+
+  const pooledHalo = creditsBrandedSearch(input.model) ? 0 : flows.reduce((sum, flow) => sum + flow.conversions, 0);
+  const totalConversions = modeled.reduce((sum, m) => sum + m.conversions, 0) + pooledHalo;
+  const extraCredit = pathCredit(input, flows);
+  const creditShare = stageCreditShares(input, attributedShares(input, journeys, modeled, fitted));
+  const bands = simulateUncertainty(
+    input,
+    creditShare,
+    modeled.reduce<Record<Channel, PosteriorInterval>>((acc, m) => {
+      if (m.posterior) acc[m.channel] = m.posterior.contribution;
+      return acc;
+    }, {}),
+    draws,
+  );
+
+  const calibrating = draws > 0 && (input.calibration?.length ?? 0) > 0;
+  const tests = liftTestPriors(input);
+  const uncalibratedMmm = input.model === "bayesian_mmm" ? fitted.uncalibratedMmm : null;
+
+  return modeled.map(({ channel, spend, incrementalConversions, posterior }) => {
+    const attributedConversions = totalConversions * (creditShare[channel] ?? 0) + (extraCredit[channel] ?? 0);
+    let incremental = incrementalConversions;
+    let band = bands[channel].incrementalConversions;
+    let uncalibrated: number | undefined;
+
+    if (calibrating && posterior) {
+      uncalibrated = uncalibratedMmm?.channels.find((c) => c.channel === channel)?.contribution.mean;
+    } else if (calibrating) {
+      uncalibrated = incrementalConversions;
+      const test = tests[channel];
+      if (test) {
+        const calibrated = calibrateEstimate({ mean: incrementalConversions, sd: (band.p90 - band.p10) / Z_80 }, test);
+        incremental = calibrated.mean;
+        band = {
+          p10: Math.max(0, calibrated.mean - (Z_80 / 2) * calibrated.sd),
+          p50: calibrated.mean,
+          p90: calibrated.mean + (Z_80 / 2) * calibrated.sd,
+        };
+      }
+    }
+
+    return {
+      channel,
+      roas: (attributedConversions * stageValue(input, channel)) / Math.max(spend, 1),
+      cac: spend / Math.max(attributedConversions, 1),
+      attributedConversions,
+      incrementalConversions: incremental,
+      bands: { ...bands[channel], incrementalConversions: band },
+      certainty: certaintyFromInterval({ mean: band.p50, low: band.p10, high: band.p90 }),
+      uncalibratedIncrementalConversions: uncalibrated,
+    };
+  });
+}
+
+/** Certainty label from the relative width of an 80% interval (posterior or Monte Carlo). */
+export function certaintyFromInterval({ mean, low, high }: PosteriorInterval): Certainty {
+  const relativeWidth = (high - low) / Math.max(mean, 1e-9);
+  if (relativeWidth < 0.35) return "High";
+  if (relativeWidth < 0.7) return "Medium";
+  return "Low";
+}
+
+/** Fraction of all conversions credited to each channel under the scenario's model. */
+function attributedShares(
+  input: SimulationInput,
+  journeys: Journey[],
+  modeled: { channel: Channel; incrementalConversions: number }[],
+  { markov, shapley }: FittedModels,
+): Record<Channel, number> {
+  const convertedJourneys = journeys.filter((j) => j.converted);
+  const converted = convertedJourneys.length || 1;
+  const windows = touchWindows(input);
+  // Markov and Shapley, like the rule-based models, leave conversions without an eligible touch unattributed.
+  const attributable = convertedJourneys.filter((j) => eligibleTouchpoints(j, windows).length > 0).length;
+
+  if (isRuleBasedModel(input.model)) {
+    const credit = attributeJourneys(journeys, input.model, windows);
+    return byChannel(input.channels, (ch) => (credit[ch.name] ?? 0) / converted);
+  }
+
+  if (input.model === "markov") {
+    const chain =
+      markov ??
+      buildMarkovModel(
+        journeys,
+        input.channels.map((ch) => ch.name),
+        windows,
+        input.markovOrder,
+      );
+    return chain.removalEffects.reduce<Record<Channel, number>>((acc, r) => {
+      acc[r.channel] = (r.share * attributable) / converted;
+      return acc;
+    }, {});
+  }
+
+  if (input.model === "shapley") {
+    const values =
+      shapley ??
+      computeShapley(
+        journeys,
+        input.channels.map((ch) => ch.name),
+        windows,
+        SHAPLEY_SAMPLE_PERMUTATIONS,
+        input.seed ?? DEFAULT_SEED,
+      );
+    return values.values.reduce<Record<Channel, number>>((acc, v) => {
+      acc[v.channel] = (v.share * attributable) / converted;
+      return acc;
+    }, {});
+  }
+
+  const totalIncremental = modeled.reduce((sum, m) => sum + m.incrementalConversions, 0) || 1;
+  return modeled.reduce<Record<Channel, number>>((acc, m) => {
+    acc[m.channel] = m.incrementalConversions / totalIncremental;
+    return acc;
+  }, {});
+}
+
+export function summarizeOutputs(input: SimulationInput, outputs: ChannelOutput[], plan?: BudgetPlan): ScenarioSummary {
+  const totalSpend = input.channels.reduce((sum, ch) => sum + (input.spend[ch.name] ?? 0), 0);
+  const totalRevenue = outputs.reduce((sum, o) => sum + o.roas * (input.spend[o.channel] ?? 0), 0);
+  const totalConversions = outputs.reduce((sum, o) => sum + o.attributedConversions, 0);
+
+  return {
+    totalSpend,
+    totalRevenue,
+    totalConversions,
+    blendedROAS: totalRevenue / Math.max(totalSpend, 1),
+    blendedCAC: totalSpend / Math.max(totalConversions, 1),
+    efficiencyGain: plan?.efficiencyGain ?? 0,
+  };
+}
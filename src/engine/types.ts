@@ -0,0 +1,866 @@
+/** Channel name, as declared by a `ChannelDefinition`. */
+export type Channel = string;
+
+export interface ChannelDefinition {
+  name: Channel;
+  label: string;
+  /** Any CSS colour; used for chart series. */
+  color: string;
+  /**
+   * Baseline revenue per dollar before window, saturation and attribution adjustments. Dividing by the channel's
+   * deal value turns it into conversions.
+   */
+  efficiency: number;
+  /** Share of the channel's activity that creates new demand (0–1). */
+  prospecting: number;
+  /** Share of the channel's activity that harvests existing demand (0–1). */
+  retargeting: number;
+  defaultSpend: number;
+  minSpend: number;
+  maxSpend: number;
+  /** How long the effect of a week's spend carries over into later weeks. */
+  adstock: AdstockParams;
+  /** Diminishing returns on monthly spend. */
+  saturation: SaturationParams;
+  /** Bids on the brand's own name, so it captures conversions from people already searching for the brand. */
+  brandSearch?: boolean;
+}
+
+export type AdstockType = "geometric" | "weibull";
+
+export interface AdstockParams {
+  /** Share of the effect retained from one week to the next (0–0.99). */
+  decay: number;
+  /** Weibull shape; 1 is equivalent to geometric. Ignored by geometric adstock. */
+  shape: number;
+}
+
+/** Hill response curve over monthly spend. */
+export interface SaturationParams {
+  /** Monthly spend at which the channel reaches half its maximum effect. */
+  halfSaturation: number;
+  /**
+   * Hill slope, above 0. 1 is concave throughout, lower values saturate faster at low spend and flatten more
+   * slowly, and higher values give an S-shaped curve.
+   */
+  slope: number;
+}
+
+/** A temporary change to one channel's weekly spend, e.g. a pulse (+0.5) or a cut (-1). */
+export interface SpendFlight {
+  channel: Channel;
+  /** First affected week, 1-based. */
+  startWeek: number;
+  weeks: number;
+  /** Relative change to planned weekly spend. */
+  change: number;
+}
+
+export type SeasonalityMode = "none" | "monthly" | "fourier";
+
+/** One yearly Fourier term: a cosine with `harmonic` cycles a year, peaking at `peakWeek`. */
+export interface FourierTerm {
+  harmonic: number;
+  /** Relative swing in demand, e.g. 0.08 for ±8%. */
+  amplitude: number;
+  peakWeek: number;
+}
+
+export interface Seasonality {
+  mode: SeasonalityMode;
+  /** Demand multiplier per calendar month, January first. Used by the `monthly` mode. */
+  monthly?: number[];
+  /** Used by the `fourier` mode. */
+  fourier?: FourierTerm[];
+}
+
+export type CalendarEventKind = "holiday" | "promo" | "event";
+
+/** A named run of weeks that shifts baseline demand and, optionally, how well paid media converts. */
+export interface CalendarEvent {
+  /** Stable identifier, unique within a calendar; names may repeat. */
+  id: string;
+  name: string;
+  kind: CalendarEventKind;
+  /** First week of the year (1–52) the event covers; events may run past week 52 into the next year. */
+  startWeek: number;
+  weeks: number;
+  /** Relative change to baseline demand, e.g. -0.3 for a holiday lull. */
+  demandChange: number;
+  /** Relative change to paid media response on top of the demand change, e.g. 0.2 for a promo. */
+  responseChange?: number;
+  /** Channels the response change applies to; all channels when omitted. */
+  channels?: Channel[];
+}
+
+export interface MarketingCalendar {
+  /** Week of the year (1–52) the simulated series starts in. */
+  startWeek: number;
+  seasonality: Seasonality;
+  events: CalendarEvent[];
+}
+
+/** Spend in `from` lifting conversions that arrive through `to`, e.g. LinkedIn ads prompting later brand searches. */
+export interface HaloEffect {
+  from: Channel;
+  to: Channel;
+  /** Extra conversions through `to` per incremental conversion `from` drives directly. */
+  strength: number;
+  /** Weeks between exposure to `from` and the conversion through `to`. */
+  lagWeeks: number;
+}
+
+/** Demand that exists without any paid media. */
+export interface BaselineDemand {
+  /** Monthly conversions from organic search, direct traffic and word of mouth. */
+  organicConversions: number;
+  /**
+   * Share of that demand that searches for the brand by name and clicks a brand-search ad instead of the organic
+   * listing. These conversions show up in the search channel but would have happened anyway.
+   */
+  brandedSearchShare: number;
+}
+
+export type DealValueDistribution = "lognormal" | "segments";
+
+/** A customer segment in a deal-value mix, e.g. self-serve or enterprise. */
+export interface DealSegment {
+  name: string;
+  /** Share of conversions in this segment; shares are normalized across segments. */
+  share: number;
+  /** Revenue per conversion in this segment. */
+  value: number;
+}
+
+/** Revenue booked per conversion. */
+export interface RevenueModel {
+  distribution: DealValueDistribution;
+  /** Mean revenue per conversion under the lognormal distribution. */
+  averageValue: number;
+  /** Standard deviation of log deal values under the lognormal distribution. */
+  sigma?: number;
+  /** Segment mix under the `segments` distribution; its weighted mean replaces the average value. */
+  segments?: DealSegment[];
+  /** Multiplier on deal value per channel, e.g. 2 for a channel that reaches larger accounts. 1 when omitted. */
+  channelMultipliers?: Record<Channel, number>;
+}
+
+export type FunnelStage = "lead" | "mql" | "sql" | "opportunity" | "closed_won";
+
+/** Share of the previous stage that reaches each later stage, e.g. `mql: 0.4` when 40% of leads become MQLs. */
+export type StageRates = Record<Exclude<FunnelStage, "lead">, number>;
+
+/** Lognormal delay between the previous stage and this one. */
+export interface StageLag {
+  medianDays: number;
+  /** Standard deviation of log days. */
+  sigma: number;
+}
+
+/** B2B funnel from lead to closed-won deal. */
+export interface FunnelModel {
+  /** Stage that attribution, `ChannelOutput` and the MMM count as a conversion. */
+  conversionStage: FunnelStage;
+  /** Stage rates per channel. Channels without an entry, and organic demand, use `DEFAULT_STAGE_RATES`. */
+  rates: Record<Channel, StageRates>;
+  /** Delay before each stage after the lead. */
+  lags: Record<Exclude<FunnelStage, "lead">, StageLag>;
+}
+
+/** What a customer is worth after the first deal closes. */
+export interface UnitEconomics {
+  /** Share of revenue kept after cost of goods sold (0–1). */
+  grossMargin: number;
+  /** Share of customers lost each month. */
+  monthlyChurn: number;
+  /** Monthly revenue growth from retained customers, through upsell and seat expansion. */
+  expansionRate: number;
+  /** Months before a new customer pays its full monthly revenue; revenue ramps up linearly until then. */
+  rampMonths: number;
+}
+
+export type AttributionModel =
+  | "last_click"
+  | "position_based"
+  | "time_decay"
+  | "markov"
+  | "shapley"
+  | "bayesian_mmm";
+
+/** Number of previous channels that make up a Markov state. */
+export type MarkovOrder = 1 | 2 | 3;
+
+/** Preset saturation curves; see `saturationPreset`. */
+export type SaturationLevel = "low" | "medium" | "high";
+
+export type NoiseLevel = "low" | "medium" | "high";
+
+export type ConversionWindow = 7 | 14 | 30;
+
+/** An ad click, or an impression the user saw without clicking. */
+export type TouchpointType = "click" | "view";
+
+/** Days after a click and after a view within which a channel's touch can be credited, e.g. 7-day click, 1-day view. */
+export interface TouchWindows {
+  clickDays: number;
+  /** 0 to never credit views. */
+  viewDays: number;
+}
+
+export interface SimulationInput {
+  channels: ChannelDefinition[];
+  spend: Record<Channel, number>;
+  model: AttributionModel;
+  window: ConversionWindow;
+  noise: NoiseLevel;
+  /** Order of the Markov chain used by the `markov` model. Defaults to 1. */
+  markovOrder?: MarkovOrder;
+  /** Carry-over transform applied to weekly spend. Defaults to geometric. */
+  adstockType?: AdstockType;
+  flights?: SpendFlight[];
+  /** Constraints for the budget optimiser. */
+  budget?: BudgetConstraints;
+  /** When set, `runScenario` also solves for the budget and mix that reach this target. */
+  goal?: GoalTarget;
+  /** Seeds every random draw in the engine; the same seed and inputs always give the same result. */
+  seed?: number;
+  /** Score every attribution model against the simulator's true incremental conversions. */
+  groundTruth?: boolean;
+  /** When set, `runScenario` also simulates and analyses this geo holdout test. */
+  experiment?: GeoExperiment;
+  /** Lift-test readouts that calibrate each channel's incremental conversions. */
+  calibration?: LiftTestResult[];
+  /** Seasonality, holidays and promos that move weekly demand and media response. Flat when omitted. */
+  calendar?: MarketingCalendar;
+  /** Organic demand and how much of it brand search captures. Defaults to `DEFAULT_BASELINE`. */
+  baseline?: BaselineDemand;
+  /** Cross-channel halo effects. Channels are independent when omitted. */
+  halo?: HaloEffect[];
+  /** Revenue per conversion. Defaults to `DEFAULT_REVENUE_MODEL`. */
+  revenue?: RevenueModel;
+  /** Funnel stages behind each deal. Without one, a conversion is a closed-won deal. */
+  funnel?: FunnelModel;
+  /** Margin, churn, expansion and ramp behind LTV and CAC payback. Defaults to `DEFAULT_UNIT_ECONOMICS`. */
+  unitEconomics?: UnitEconomics;
+  /** Click and view windows per channel. A channel without its own credits clicks within `window` and no views. */
+  touchWindows?: Partial<Record<Channel, TouchWindows>>;
+}
+
+export interface Touchpoint {
+  channel: Channel;
+  type: TouchpointType;
+  /** Days since the journey's first click; views seen before it are negative. */
+  timestamp: number;
+  /** Whether the touch was captured by tracking; attribution models only see tracked touches. */
+  tracked: boolean;
+}
+
+export interface Journey {
+  id: number;
+  /** Ordered by timestamp. */
+  touchpoints: Touchpoint[];
+  converted: boolean;
+  /** Days since the start of the journey, or null when the journey did not convert. */
+  conversionTime: number | null;
+}
+
+export interface MarkovTransition {
+  from: string;
+  to: string;
+  probability: number;
+  count: number;
+}
+
+export interface RemovalEffect {
+  channel: Channel;
+  /** Relative drop in conversion probability when the channel is removed from every path. */
+  removalEffect: number;
+  /** Removal effect normalized across channels; the share of conversions the model assigns. */
+  share: number;
+}
+
+export interface MarkovResult {
+  order: MarkovOrder;
+  /** Transient states, starting with the start state. */
+  states: string[];
+  transitions: MarkovTransition[];
+  conversionProbability: number;
+  removalEffects: RemovalEffect[];
+}
+
+export interface ShapleyCoalition {
+  /** Exact set of channels observed in the journeys of this coalition; empty for untracked journeys. */
+  channels: Channel[];
+  journeys: number;
+  conversions: number;
+  conversionRate: number;
+  /**
+   * Characteristic value: the conversion rate of journeys whose channels are a subset of this coalition, less the
+   * rate of journeys with no observed touch, times every journey.
+   */
+  value: number;
+}
+
+export interface ShapleyValue {
+  channel: Channel;
+  /** Conversions above the no-touch rate credited to the channel. */
+  value: number;
+  share: number;
+}
+
+export interface ShapleyResult {
+  method: "exact" | "sampled";
+  values: ShapleyValue[];
+  /** Observed coalitions, most common first. */
+  coalitions: ShapleyCoalition[];
+}
+
+/** A full scenario as accepted by `runScenario`. */
+export type Scenario = SimulationInput;
+
+export type Certainty = "Low" | "Medium" | "High";
+
+export interface Quantiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/** Monte Carlo quantiles of a channel's outputs over draws of the noise and efficiency parameters. */
+export interface ChannelBands {
+  roas: Quantiles;
+  cac: Quantiles;
+  incrementalConversions: Quantiles;
+}
+
+export interface ChannelOutput {
+  channel: Channel;
+  roas: number;
+  cac: number;
+  attributedConversions: number;
+  incrementalConversions: number;
+  bands: ChannelBands;
+  /** From the relative width of the p10–p90 band on incremental conversions. */
+  certainty: Certainty;
+  /** Incremental conversions before lift-test calibration; set when the scenario has calibration results. */
+  uncalibratedIncrementalConversions?: number;
+}
+
+/** What a channel actually produces at the scenario's spend, independent of the attribution model. */
+export interface ChannelEconomics {
+  channel: Channel;
+  spend: number;
+  conversions: number;
+  incrementalConversions: number;
+}
+
+export interface PosteriorInterval {
+  mean: number;
+  /** Lower bound of the central credible interval (10th percentile). */
+  low: number;
+  /** Upper bound of the central credible interval (90th percentile). */
+  high: number;
+}
+
+/** Weekly history an MMM is fitted on. */
+export interface MmmDataset {
+  weeks: number;
+  channels: Channel[];
+  /** Weekly spend per channel, oldest week first. */
+  spend: Record<Channel, number[]>;
+  /** Weekly conversions, oldest week first. */
+  conversions: number[];
+  /** Weekly spend the scenario plans per channel; contributions are reported at this level. */
+  plannedWeeklySpend: Record<Channel, number>;
+  /** Known weekly multiplier on baseline demand from the marketing calendar; 1 when omitted. */
+  demand?: number[];
+  /** Known weekly multiplier on each channel's media response from the marketing calendar; 1 when omitted. */
+  response?: Record<Channel, number[]>;
+}
+
+export interface MmmPrior {
+  /** Prior mean of the channel's monthly incremental conversions at planned spend. */
+  mean: number;
+  sd: number;
+}
+
+export interface MmmChannelPosterior {
+  channel: Channel;
+  /** Monthly incremental conversions at planned spend. */
+  contribution: PosteriorInterval;
+  /** Geometric adstock decay rate. */
+  decay: PosteriorInterval;
+  /** Weekly conversions at full saturation. */
+  coefficient: PosteriorInterval;
+}
+
+export interface MmmFit {
+  channels: MmmChannelPosterior[];
+  /** Weekly conversions not driven by paid media. */
+  baseline: PosteriorInterval;
+  sigma: number;
+  rSquared: number;
+  draws: number;
+  weeks: number;
+}
+
+export type OptimizationObjective = "conversions" | "revenue";
+
+export interface BudgetConstraints {
+  /** What the optimiser maximises. Defaults to incremental conversions. */
+  objective?: OptimizationObjective;
+  /** Monthly budget to allocate. Defaults to current total spend. */
+  totalBudget?: number;
+  /** Per-channel spend bounds; default to each channel's `minSpend` / `maxSpend`. */
+  minSpend?: Record<Channel, number>;
+  maxSpend?: Record<Channel, number>;
+  /** Largest relative change from a channel's current weekly spend, e.g. 0.2 for ±20%. Unlimited when unset. */
+  maxWeeklyChange?: number;
+  /** Channels that keep their current spend. */
+  locked?: Channel[];
+}
+
+export interface BudgetPlanRow {
+  channel: Channel;
+  before: number;
+  after: number;
+  /** Effective bounds after min/max spend, the week-over-week limit and locking. */
+  min: number;
+  max: number;
+  locked: boolean;
+}
+
+export interface BudgetPlan {
+  objective: OptimizationObjective;
+  /** False when the bounds cannot add up to the total budget. */
+  feasible: boolean;
+  totalBudget: number;
+  rows: BudgetPlanRow[];
+  /** Modelled incremental objective value per month at current and at recommended spend, both re-evaluated. */
+  beforeValue: number;
+  afterValue: number;
+  /** Relative change in objective value per dollar. */
+  efficiencyGain: number;
+  /** Spend taken out of channels that the plan cuts. */
+  reallocated: number;
+}
+
+export interface ChannelScore {
+  channel: Channel;
+  /** True incremental conversions per month. */
+  truth: number;
+  /** What the model reports as the channel's contribution. */
+  estimate: number;
+  /** Relative over- (positive) or under-statement of the truth; null when the truth is too small to compare to. */
+  bias: number | null;
+  absoluteError: number;
+  /** 1-based rank among channels, largest contribution first. */
+  trueRank: number;
+  estimatedRank: number;
+}
+
+export interface ModelScore {
+  model: AttributionModel;
+  channels: ChannelScore[];
+  meanAbsoluteError: number;
+  /** Share of channels the model ranks in their true position. */
+  rankAccuracy: number;
+  /** Spearman correlation between the true and estimated channel rankings. */
+  rankCorrelation: number;
+}
+
+export interface GroundTruthReport {
+  truth: Record<Channel, number>;
+  models: ModelScore[];
+}
+
+export type LiftMethod = "synthetic_control" | "diff_in_diff";
+
+/** A geo holdout test: `channel` goes dark in a random set of synthetic regions after a clean pre-period. */
+export interface GeoExperiment {
+  channel: Channel;
+  /** Defaults to synthetic control. */
+  method?: LiftMethod;
+  /** Regions in which the channel is switched off. Defaults to 5 of GEO_REGIONS. */
+  treatedRegions?: number;
+  /** Weeks of history before the test, used to fit the counterfactual. Defaults to 12. */
+  preWeeks?: number;
+  /** Weeks the channel stays dark. Defaults to 6. */
+  testWeeks?: number;
+}
+
+export interface GeoRegion {
+  name: string;
+  /** Share of national conversions. */
+  share: number;
+  treated: boolean;
+  /** Weight of a control region in the counterfactual; 0 for treated regions. */
+  weight: number;
+}
+
+export interface GeoLiftPoint {
+  week: string;
+  /** Observed conversions across the treated regions. */
+  actual: number;
+  /** Estimated conversions the treated regions would have had without the holdout. */
+  counterfactual: number;
+  /** p10–p90 range of the counterfactual, as [low, high]. */
+  band: [number, number];
+}
+
+export interface GeoLiftResult {
+  channel: Channel;
+  method: LiftMethod;
+  preWeeks: number;
+  testWeeks: number;
+  regions: GeoRegion[];
+  series: GeoLiftPoint[];
+  /** Conversions the channel drove in the treated regions over the test: counterfactual minus actual. */
+  lift: Quantiles;
+  /** Lift as a share of counterfactual conversions over the test. */
+  relativeLift: Quantiles;
+  /** Conversions the holdout actually removed, known only to the simulator. */
+  trueLift: number;
+  /** Channel spend not made in the treated regions during the test. */
+  spendWithheld: number;
+  /** Root mean squared error of the counterfactual over the pre-period, relative to mean weekly conversions. */
+  preFitError: number;
+}
+
+export type LiftTestMetric = "conversions" | "iroas";
+
+export type LiftTestConfidence = 0.8 | 0.9 | 0.95;
+
+/** A channel's lift-test readout, with its confidence interval. */
+export interface LiftTestResult {
+  channel: Channel;
+  /** Monthly incremental conversions, or incremental revenue per dollar of spend (iROAS). */
+  metric: LiftTestMetric;
+  estimate: number;
+  low: number;
+  high: number;
+  /** Confidence level of [low, high]. Defaults to 0.9. */
+  confidence?: LiftTestConfidence;
+  /** Monthly spend on the channel while the test ran. Defaults to the scenario's current spend. */
+  spend?: number;
+}
+
+/** One candidate geo holdout for a channel, as sized by the test planner. */
+export interface LiftTestDesign {
+  channel: Channel;
+  treatedRegions: number;
+  testWeeks: number;
+  /** Probability that the test detects the channel's expected lift. */
+  power: number;
+  /** Conversions the holdout is expected to remove in the treated regions over the test. */
+  expectedLift: number;
+  /** Minimum detectable effect: the smallest lift the test detects with POWER_TARGET probability. */
+  mde: number;
+  /** Minimum detectable effect as a share of the treated regions' conversions over the test. */
+  relativeMde: number;
+  /** Channel spend not made in the treated regions during the test. */
+  spendWithheld: number;
+}
+
+export interface ChannelTestPlan {
+  channel: Channel;
+  /** Every design the planner considered, by treated regions and then test length. */
+  designs: LiftTestDesign[];
+  /** The design reaching POWER_TARGET that gives up the fewest conversions, or the most powerful one. */
+  recommended: LiftTestDesign;
+  /** False when no design within the planner's limits reaches POWER_TARGET. */
+  feasible: boolean;
+}
+
+export type GoalMetric = "cac" | "roas" | "conversions";
+
+/** A blended CAC ceiling, a blended ROAS floor or a monthly conversion volume to reach. */
+export interface GoalTarget {
+  metric: GoalMetric;
+  value: number;
+}
+
+export interface GoalSeekResult {
+  target: GoalTarget;
+  /** False when no budget within the channels' spend ranges reaches the target. */
+  feasible: boolean;
+  totalBudget: number;
+  /** Recommended spend per channel; `before` is the scenario's current spend. */
+  rows: BudgetPlanRow[];
+  /** Outcome at the recommended spend, or the closest achievable outcome when infeasible. */
+  summary: ScenarioSummary;
+  /** Value of the target metric at the recommended spend. */
+  achieved: number;
+}
+
+export interface ScenarioSummary {
+  totalSpend: number;
+  totalRevenue: number;
+  totalConversions: number;
+  blendedROAS: number;
+  blendedCAC: number;
+  /** Change in modeled return per dollar from applying the budget plan. */
+  efficiencyGain: number;
+}
+
+export interface WeeklyPoint {
+  week: string;
+  ROAS: number;
+  CAC: number;
+}
+
+/** One week of per-channel ROAS, keyed by channel name alongside the `week` label. */
+export type PerChannelWeeklyPoint = { week: string } & Record<Channel, number | string>;
+
+export interface ResponseCurvePoint {
+  /** Monthly spend. */
+  spend: number;
+  /** Incremental revenue per month at this spend. */
+  revenue: number;
+  /** Incremental revenue per dollar of the next `MARGINAL_SPEND_STEP` dollars. */
+  marginalRoas: number;
+}
+
+export interface ResponseCurve {
+  channel: Channel;
+  currentSpend: number;
+  currentRevenue: number;
+  /** Marginal ROAS of the next dollars at current spend. */
+  marginalRoas: number;
+  points: ResponseCurvePoint[];
+}
+
+export interface HaloFlow extends HaloEffect {
+  /** Monthly conversions through `to` that `from` causes. */
+  conversions: number;
+  /** Share of those conversions each click-based model credits to `from`; the rest goes to `to`. */
+  fromCredit: Record<Exclude<AttributionModel, "bayesian_mmm">, number>;
+}
+
+export interface HaloChannel {
+  channel: Channel;
+  /** True incremental conversions, including the halo the channel causes through other channels. */
+  trueConversions: number;
+  /** Conversions the channel causes through other channels. */
+  haloOut: number;
+  /** Conversions other channels cause through this one. */
+  haloIn: number;
+  /** Conversions last click credits to the channel. */
+  lastClick: number;
+  /** The MMM's posterior mean contribution, or null when no fit is available. */
+  mmm: number | null;
+}
+
+/** How long leads take to reach a funnel stage. */
+export interface FunnelStageTiming {
+  stage: FunnelStage;
+  medianDays: number;
+  p90Days: number;
+  /** Share of the leads that reach the stage doing so within 30 days. */
+  withinMonth: number;
+}
+
+export interface FunnelStagePoint {
+  stage: FunnelStage;
+  /** Monthly conversions reaching the stage. */
+  conversions: number;
+  /** Spend per conversion at the stage. */
+  costPer: number;
+}
+
+export interface FunnelChannel {
+  channel: Channel;
+  stages: FunnelStagePoint[];
+}
+
+/** Each channel's monthly funnel from lead to closed-won, and how long each stage takes. */
+export interface FunnelReport {
+  conversionStage: FunnelStage;
+  timings: FunnelStageTiming[];
+  channels: FunnelChannel[];
+}
+
+/** LTV and CAC payback for one channel, or blended across channels when `channel` is omitted. */
+export interface UnitEconomicsRow {
+  channel?: Channel;
+  /** New customers per month: attributed conversions counted as closed-won deals. */
+  customers: number;
+  /** Spend per new customer. */
+  cac: number;
+  /** Monthly recurring revenue per customer once ramped: a twelfth of the deal value. */
+  monthlyRevenue: number;
+  /** Gross-margin lifetime value per customer. */
+  ltv: number;
+  ltvToCac: number;
+  /** Months of gross margin it takes to earn back the CAC, or null when it never pays back. */
+  paybackMonths: number | null;
+}
+
+export interface UnitEconomicsReport {
+  blended: UnitEconomicsRow;
+  channels: UnitEconomicsRow[];
+  /** Blended economics at the budget plan's recommended spend. */
+  planned: UnitEconomicsRow;
+}
+
+/** An ad platform's own conversion reporting: it counts a conversion after a click or a view within its windows. */
+export interface PlatformReporting {
+  /** The reporting tool, e.g. Meta Ads Manager. */
+  platform: string;
+  clickWindowDays: number;
+  /** 0 when the platform does not count view-through conversions. */
+  viewWindowDays: number;
+}
+
+/** One of a platform's channels with the attribution setting it reports under. */
+export interface PlatformChannelSetting {
+  channel: Channel;
+  clickWindowDays: number;
+  viewWindowDays: number;
+}
+
+/** What one platform claims across its channels next to their de-duplicated modelled conversions. */
+export interface PlatformReportRow {
+  /** The reporting tool, e.g. Google Ads. */
+  platform: string;
+  /** The platform's channels in scenario order, each with its own setting. */
+  channels: PlatformChannelSetting[];
+  /** Conversions the platform claims after a click by any of its channels within that channel's click window. */
+  clickConversions: number;
+  /** Conversions the platform claims after only views within its channels' view windows. */
+  viewConversions: number;
+  /** Every conversion counted once, however many of the platform's channels touched it. */
+  reported: number;
+  /** The platform's channels' attributed conversions under the selected model. */
+  deduplicated: number;
+}
+
+export interface PlatformReport {
+  rows: PlatformReportRow[];
+  /** Sum of what every platform reports. */
+  reported: number;
+  /** Modelled conversions across all channels, each counted once. */
+  deduplicated: number;
+  /** How far the platforms' total exceeds the de-duplicated total, as a share of it. */
+  overCount: number;
+}
+
+export interface ViewWindowPoint {
+  viewDays: number;
+  attributedConversions: number;
+}
+
+/** One channel's attributed conversions as its view window widens, with its other settings held. */
+export interface ViewWindowSweep {
+  channel: Channel;
+  /** The channel's view window in the scenario. */
+  viewDays: number;
+  points: ViewWindowPoint[];
+}
+
+export interface ViewWindowReport {
+  /** The rule the sweep credits journeys with: the scenario's model when rule-based, position-based otherwise. */
+  model: "last_click" | "position_based" | "time_decay";
+  channels: ViewWindowSweep[];
+}
+
+/** How the halo matrix plays out, and how last click and the MMM assign it. */
+export interface HaloReport {
+  flows: HaloFlow[];
+  channels: HaloChannel[];
+}
+
+/**
+ * Where conversions come from. `organic` and `branded_search` are baseline demand, the latter captured by
+ * brand-search ads; `harvested` is the rest of the conversions paid channels touch without causing them.
+ */
+export type ContributionSource = "organic" | "branded_search" | "harvested" | "paid";
+
+export interface ContributionRow {
+  source: ContributionSource;
+  /** Set on `paid` rows. */
+  channel?: Channel;
+  /** Conversions the source actually accounts for; for paid channels, their true incremental conversions. */
+  trueConversions: number;
+  /** Conversions the scenario's model assigns to the source. */
+  creditedConversions: number;
+}
+
+/** Total monthly conversions split by source, as the simulator knows them and as the selected model credits them. */
+export interface ContributionBreakdown {
+  totalConversions: number;
+  rows: ContributionRow[];
+}
+
+/** One week of the simulated series placed on the marketing calendar. */
+export interface CalendarWeek {
+  week: string;
+  weekOfYear: number;
+  month: string;
+  /** Baseline demand relative to an average week, after seasonality and events. */
+  demand: number;
+  /** Names of the events running this week. */
+  events: string[];
+}
+
+export type CalendarAnnotationKind = CalendarEventKind | "peak_season" | "low_season";
+
+/** A labelled range of series weeks for chart annotations. */
+export interface CalendarAnnotation {
+  /** The event's id, or `season-<first week label>` for a seasonal run. */
+  id: string;
+  label: string;
+  kind: CalendarAnnotationKind;
+  /** First and last week labels the annotation covers, e.g. "W3" and "W5". */
+  x1: string;
+  x2: string;
+}
+
+export interface CohortRow {
+  bucket: string;
+  cumulative: number;
+  incremental: number;
+  note: string;
+}
+
+export interface ScenarioResult {
+  engineVersion: string;
+  journeys: Journey[];
+  markov: MarkovResult;
+  shapley: ShapleyResult;
+  /** Bayesian MMM posterior, when the scenario uses `bayesian_mmm` or ground-truth scoring and a fit is available. */
+  mmm: MmmFit | null;
+  /** Every model scored against the true incremental conversions, when `scenario.groundTruth` is set. */
+  groundTruth: GroundTruthReport | null;
+  outputs: ChannelOutput[];
+  budgetPlan: BudgetPlan;
+  /** Solution for `scenario.goal`, or null when no goal is set. */
+  goalSeek: GoalSeekResult | null;
+  /** Simulated geo holdout for `scenario.experiment`, or null when no experiment is set. */
+  experiment: GeoLiftResult | null;
+  /** Power analysis and recommended geo holdout for each channel. */
+  testPlans: ChannelTestPlan[];
+  summary: ScenarioSummary;
+  weeklySeries: WeeklyPoint[];
+  weeklySeriesOptimized: WeeklyPoint[];
+  perChannelWeeklySeries: PerChannelWeeklyPoint[];
+  /** Halo flows and how models credit them, or null when `scenario.halo` is not set. */
+  halo: HaloReport | null;
+  /** Stage-by-stage funnel per channel, or null when `scenario.funnel` is not set. */
+  funnel: FunnelReport | null;
+  /** LTV, LTV:CAC and CAC payback per channel, blended and under the budget plan. */
+  unitEconomics: UnitEconomicsReport;
+  /** Conversions each ad platform would self-report, against the de-duplicated total. */
+  platforms: PlatformReport;
+  /** How each channel's attributed conversions grow with its view-through window. */
+  viewWindows: ViewWindowReport;
+  /** Monthly conversions split into baseline demand and each channel's incremental contribution. */
+  contributions: ContributionBreakdown;
+  /** The series' weeks on the marketing calendar; empty when `scenario.calendar` is not set. */
+  calendar: CalendarWeek[];
+  /** Events and seasonal peaks and lows to mark on the weekly charts. */
+  annotations: CalendarAnnotation[];
+  /** Incremental revenue and marginal ROAS against spend, per channel. */
+  responseCurves: ResponseCurve[];
+  cohorts: CohortRow[];
+}
@@ -0,0 +1,92 @@
+import { creditsBrandedSearch } from "./baseline";
+import { modelChannelEconomics } from "./economics";
+import { stageValue, stageVolume } from "./funnel";
+import { haloFlows, haloOut, pathCredit } from "./halo";
+import { normal, positiveNormal, quantile, scenarioRng } from "./random";
+import { noiseFactor } from "./response";
+import { DEFAULT_REVENUE_MODEL, dealValueSpread } from "./revenue";
+import type { Channel, ChannelBands, ConversionWindow, PosteriorInterval, Quantiles, SimulationInput } from "./types";
+
+export const MONTE_CARLO_DRAWS = 500;
+
+/** Shorter windows see less of the conversion lag, so their efficiency estimates are less certain. */
+const WINDOW_SPREAD: Record<ConversionWindow, number> = {
+  7: 1.5,
+  14: 1.2,
+  30: 1,
+};
+
+/** z-score spanning an 80% interval (p10–p90) of a normal distribution. */
+export const Z_80 = 2.563;
+
+function quantiles(draws: number[]): Quantiles {
+  const sorted = draws.slice().sort((a, b) => a - b);
+  return { p10: quantile(sorted, 0.1), p50: quantile(sorted, 0.5), p90: quantile(sorted, 0.9) };
+}
+
+/**
+ * Monte Carlo bands for each channel's ROAS, CAC and incremental conversions. Every draw perturbs each channel's
+ * efficiency and incremental share by lognormal noise (wider at higher noise levels and shorter windows), re-runs
+ * the channel economics, spreads the modeled conversions by the attribution model's credit shares (adding any
+ * branded and halo conversions the model credits) with measurement noise on top, and records the outcome. Under
+ * an MMM posterior, incremental conversions are drawn from the posterior interval instead. Halo conversions are
+ * held at their expected size, and revenue varies with the spread of deal values.
+ *
+ * Credit shares are held fixed across draws rather than re-walking journeys, which keeps the bands cheap enough to
+ * compute on every scenario change.
+ */
+export function simulateUncertainty(
+  input: SimulationInput,
+  creditShare: Record<Channel, number>,
+  posteriors: Record<Channel, PosteriorInterval> = {},
+  draws = MONTE_CARLO_DRAWS,
+): Record<Channel, ChannelBands> {
+  const rng = scenarioRng(input, "uncertainty");
+  const noise = noiseFactor(input.noise);
+  const efficiencySpread = noise * 1.5 * WINDOW_SPREAD[input.window];
+  const incrementalSpread = noise * 1.5;
+  const lognormal = (sd: number) => Math.exp(sd * normal(rng) - (sd * sd) / 2);
+  const flows = haloFlows(input);
+  const halo = haloOut(flows);
+  const extraCredit = pathCredit(input, flows);
+  const valueSpread = dealValueSpread(input.revenue ?? DEFAULT_REVENUE_MODEL);
+  const pooledHalo = creditsBrandedSearch(input.model) ? 0 : flows.reduce((sum, flow) => sum + flow.conversions, 0);
+
+  const samples = input.channels.map(() => ({
+    roas: [] as number[],
+    cac: [] as number[],
+    incremental: [] as number[],
+  }));
+
+  for (let draw = 0; draw < draws; draw++) {
+    const channels = input.channels.map((ch) => ({ ...ch, efficiency: ch.efficiency * lognormal(efficiencySpread) }));
+    const economics = modelChannelEconomics({ ...input, channels });
+    const totalConversions = economics.reduce((sum, e) => sum + e.conversions, 0) + pooledHalo;
+
+    economics.forEach((e, idx) => {
+      const posterior = posteriors[e.channel];
+      const incremental = posterior
+        ? positiveNormal(rng, posterior.mean, Math.max((posterior.high - posterior.low) / Z_80, 1e-9))
+        : (e.incrementalConversions + (halo[e.channel] ?? 0)) * lognormal(incrementalSpread);
+      const credited = totalConversions * (creditShare[e.channel] ?? 0) + (extraCredit[e.channel] ?? 0);
+      const attributed = Math.max(0, credited * (1 + noise * normal(rng)));
+
+      // Revenue is a sum of individual deals, so its relative spread shrinks with the number of deals.
+      const deals = Math.max(attributed / stageVolume(input, e.channel), 1);
+      const value = stageValue(input, e.channel) * Math.max(0, 1 + (valueSpread / Math.sqrt(deals)) * normal(rng));
+
+      samples[idx].roas.push((attributed * value) / Math.max(e.spend, 1));
+      samples[idx].cac.push(e.spend / Math.max(attributed, 1));
+      samples[idx].incremental.push(incremental);
+    });
+  }
+
+  return input.channels.reduce<Record<Channel, ChannelBands>>((acc, ch, idx) => {
+    acc[ch.name] = {
+      roas: quantiles(samples[idx].roas),
+      cac: quantiles(samples[idx].cac),
+      incrementalConversions: quantiles(samples[idx].incremental),
+    };
+    return acc;
+  }, {});
+}
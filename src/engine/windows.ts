@@ -0,0 +1,43 @@
+import { attributeJourneys, isRuleBasedModel, touchWindows } from "./attribution";
+import type { ChannelOutput, Journey, SimulationInput, ViewWindowReport } from "./types";
+
+/** View windows the sweep tries, in days: none, the common platform settings and up to four weeks. */
+export const VIEW_WINDOW_STEPS = [0, 1, 3, 7, 14, 28];
+
+/**
+ * Each channel's attributed conversions as its view window widens and everything else stays as set, credited by
+ * the scenario's rule-based model or, for the MMM and the data-driven models, by position-based. The credit a
+ * channel gains or loses against its current window, in journeys, is added to its attributed conversions at the
+ * journeys' average conversions each. Views never cause a conversion, so whatever a wider window adds is credit
+ * taken from other channels or from conversions that had no eligible touch, not extra incremental conversions.
+ */
+export function buildViewWindowReport(
+  input: SimulationInput,
+  journeys: Journey[],
+  outputs: ChannelOutput[],
+): ViewWindowReport {
+  const model = isRuleBasedModel(input.model) ? input.model : "position_based";
+  const windows = touchWindows(input);
+  const current = attributeJourneys(journeys, model, windows);
+  const converted = journeys.filter((j) => j.converted).length;
+  const perJourney = outputs.reduce((sum, o) => sum + o.attributedConversions, 0) / Math.max(converted, 1);
+
+  return {
+    model,
+    channels: outputs.map((output) => {
+      const setting = windows[output.channel];
+      return {
+        channel: output.channel,
+        viewDays: setting.viewDays,
+        points: VIEW_WINDOW_STEPS.map((viewDays) => {
+          const credit = attributeJourneys(journeys, model, {
+            ...windows,
+            [output.channel]: { ...setting, viewDays },
+          });
+          const gained = (credit[output.channel] ?? 0) - (current[output.channel] ?? 0);
+          return { viewDays, attributedConversions: Math.max(output.attributedConversions + gained * perJourney, 0) };
+        }),
+      };
+    }),
+  };
+}
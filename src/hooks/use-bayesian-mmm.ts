@@ -0,0 +1,80 @@
+import * as React from "react";
+import { MMM_SCENARIO_FIELDS, type MmmFit, type MmmOptions, type SimulationInput } from "@/engine";
+import type { MmmWorkerRequest, MmmWorkerResponse } from "@/engine/mmm.worker";
+
+const DEBOUNCE_MS = 250;
+
+const createWorker = () => new Worker(new URL("../engine/mmm.worker.ts", import.meta.url), { type: "module" });
+
+/**
+ * Fits the Bayesian MMM for `input` in a web worker so the page stays responsive. Pass `null` to skip fitting.
+ * A fit that is still running when the input changes is abandoned and the worker restarted.
+ *
+ * Until the fit for the current input arrives, the last fit is returned with `stale` set, so callers can keep
+ * showing it without passing it off as current. A worker error ends `fitting` and leaves the last fit stale.
+ */
+export function useBayesianMmm(input: SimulationInput | null, options?: MmmOptions) {
+  const [result, setResult] = React.useState<{ key: string; fit: MmmFit } | null>(null);
+  const [fitting, setFitting] = React.useState(false);
+  const workerRef = React.useRef<Worker | null>(null);
+  const requestRef = React.useRef(0);
+  const requestKeyRef = React.useRef("");
+  const pendingRef = React.useRef(false);
+  const latestRef = React.useRef({ input, options });
+  latestRef.current = { input, options };
+
+  // Only the scenario fields the fit reads, so budget, experiment and display settings never restart it.
+  const key = input ? JSON.stringify([MMM_SCENARIO_FIELDS.map((field) => input[field]), options ?? null]) : null;
+
+  React.useEffect(() => {
+    if (!key) {
+      setFitting(false);
+      return;
+    }
+
+    setFitting(true);
+    const timeout = setTimeout(() => {
+      if (pendingRef.current && workerRef.current) {
+        workerRef.current.terminate();
+        workerRef.current = null;
+      }
+      if (!workerRef.current) {
+        const worker = createWorker();
+        worker.onmessage = (event: MessageEvent<MmmWorkerResponse>) => {
+          if (event.data.id !== requestRef.current) return;
+          pendingRef.current = false;
+          setResult({ key: requestKeyRef.current, fit: event.data.fit });
+          setFitting(false);
+        };
+        worker.onerror = (event) => {
+          event.preventDefault();
+          console.error("Bayesian MMM worker failed:", event.message);
+          worker.terminate();
+          if (workerRef.current === worker) workerRef.current = null;
+          pendingRef.current = false;
+          setFitting(false);
+        };
+        workerRef.current = worker;
+      }
+      requestRef.current += 1;
+      requestKeyRef.current = key;
+      pendingRef.current = true;
+      // The latest input has the same fit-relevant fields as `key`; JSON drops anything a worker cannot receive.
+      const request: MmmWorkerRequest = {
+        ...JSON.parse(JSON.stringify(latestRef.current)),
+        id: requestRef.current,
+      };
+      workerRef.current.postMessage(request);
+    }, DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [key]);
+
+  React.useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return {
+    fit: key ? (result?.fit ?? null) : null,
+    fitting: Boolean(key) && fitting,
+    stale: Boolean(key && result && result.key !== key),
+  };
+}
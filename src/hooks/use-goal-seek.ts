@@ -0,0 +1,33 @@
+import * as React from "react";
+import { seekGoal, type GoalSeekResult, type GoalTarget, type Scenario, type ScenarioResult } from "@/engine";
+
+const DEBOUNCE_MS = 250;
+
+interface Solution {
+  result: ScenarioResult;
+  goal: GoalTarget;
+  goalSeek: GoalSeekResult;
+}
+
+/**
+ * Solves `goal` for a scenario whose `result` is already computed, reusing its journeys, Markov, Shapley and MMM
+ * fits. The seek re-plans the budget a couple of dozen times, so it waits until the inputs settle; until then the
+ * previous solution is returned with `seeking` set. Pass `null` to skip it.
+ */
+export function useGoalSeek(scenario: Scenario, result: ScenarioResult, goal: GoalTarget | null) {
+  const [solution, setSolution] = React.useState<Solution | null>(null);
+
+  React.useEffect(() => {
+    if (!goal) return;
+    const timeout = setTimeout(() => {
+      setSolution({ result, goal, goalSeek: seekGoal(scenario, result.outputs, goal, result) });
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [scenario, result, goal]);
+
+  if (!goal) return { goalSeek: null, seeking: false };
+  return {
+    goalSeek: solution?.goalSeek ?? null,
+    seeking: solution?.result !== result || solution?.goal !== goal,
+  };
+}
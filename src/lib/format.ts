@@ -0,0 +1,18 @@
+export const currencyFormatter = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  maximumFractionDigits: 0,
+});
+
+export const numberFormatter = new Intl.NumberFormat("en-US", {
+  maximumFractionDigits: 1,
+});
+
+export const percentFormatter = new Intl.NumberFormat("en-US", {
+  style: "percent",
+  maximumFractionDigits: 1,
+});
+
+/** Months to pay back a CAC, or "Never" when it does not pay back within the LTV horizon. */
+export const formatPayback = (months: number | null) =>
+  months === null ? "Never" : `${numberFormatter.format(months)} mo`;
@@ -3,415 +3,404 @@ import {
   Bar,
   BarChart,
   CartesianGrid,
+  ErrorBar,
   Legend,
   Line,
   LineChart,
+  ReferenceArea,
+  ReferenceLine,
   ResponsiveContainer,
   Tooltip as RechartsTooltip,
   XAxis,
   YAxis,
 } from "recharts";
-import { Slider } from "@/components/ui/slider";
+import { Dices, Lock, Unlock } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CalendarPanel } from "@/components/simulator/CalendarPanel";
+import { CalibrationPanel } from "@/components/simulator/CalibrationPanel";
+import { ContributionPanel } from "@/components/simulator/ContributionPanel";
+import { ExperimentControls } from "@/components/simulator/ExperimentControls";
+import { FunnelControls } from "@/components/simulator/FunnelControls";
+import { FunnelPanel } from "@/components/simulator/FunnelPanel";
+import { GeoLiftPanel } from "@/components/simulator/GeoLiftPanel";
+import { GoalControls } from "@/components/simulator/GoalControls";
+import { GoalSeekPanel } from "@/components/simulator/GoalSeekPanel";
+import { GroundTruthPanel } from "@/components/simulator/GroundTruthPanel";
+import { HaloControls } from "@/components/simulator/HaloControls";
+import { HaloPanel } from "@/components/simulator/HaloPanel";
+import { InputSlider } from "@/components/simulator/InputSlider";
+import { MarkovPanel } from "@/components/simulator/MarkovPanel";
+import { MmmPosteriorPanel } from "@/components/simulator/MmmPosteriorPanel";
+import { OptionTabs } from "@/components/simulator/OptionTabs";
+import { PlatformPanel } from "@/components/simulator/PlatformPanel";
+import { ResponseCurvesPanel } from "@/components/simulator/ResponseCurvesPanel";
+import { RevenueControls } from "@/components/simulator/RevenueControls";
+import { ShapleyPanel } from "@/components/simulator/ShapleyPanel";
+import { SummaryMetric } from "@/components/simulator/SummaryMetric";
+import { TestPlannerPanel } from "@/components/simulator/TestPlannerPanel";
+import { TouchWindowControls } from "@/components/simulator/TouchWindowControls";
+import { UnitEconomicsPanel } from "@/components/simulator/UnitEconomicsPanel";
+import { ViewWindowPanel } from "@/components/simulator/ViewWindowPanel";
+import {
+  CHANNEL_REGISTRY,
+  DEFAULT_BASELINE,
+  DEFAULT_CHANNELS,
+  DEFAULT_HALO,
+  DEFAULT_REVENUE_MODEL,
+  DEFAULT_SEED,
+  DEFAULT_UNIT_ECONOMICS,
+  GEO_REGIONS,
+  MONTE_CARLO_DRAWS,
+  byChannel,
+  defaultCalendar,
+  defaultFunnel,
+  defaultChannelDefinitions,
+  getChannelDefinition,
+  WEEKS,
+  WEEKS_PER_MONTH,
+  runScenario,
+  saturationPreset,
+  stageValue,
+  touchWindows as resolveTouchWindows,
+  type AdstockType,
+  type AttributionModel,
+  type BaselineDemand,
+  type CalendarAnnotationKind,
+  type Channel,
+  type ChannelDefinition,
+  type ConversionWindow,
+  type FunnelModel,
+  type GeoExperiment,
+  type GoalTarget,
+  type HaloEffect,
+  type LiftTestDesign,
+  type LiftTestMetric,
+  type LiftTestResult,
+  type MarketingCalendar,
+  type MarkovOrder,
+  type NoiseLevel,
+  type OptimizationObjective,
+  type RevenueModel,
+  type SaturationLevel,
+  type SaturationParams,
+  type Scenario,
+  type SpendFlight,
+  type TouchWindows,
+  type UnitEconomics,
+} from "@/engine";
+import { useBayesianMmm } from "@/hooks/use-bayesian-mmm";
+import { useGoalSeek } from "@/hooks/use-goal-seek";
+import { currencyFormatter, formatPayback, numberFormatter, percentFormatter } from "@/lib/format";
 
-const CHANNELS = ["Meta", "Google Search", "LinkedIn"] as const;
-
-type Channel = (typeof CHANNELS)[number];
-
-type AttributionModel = "last_click" | "position_based" | "time_decay" | "bayesian_mmm";
-
-type SaturationLevel = "low" | "medium" | "high";
-
-type NoiseLevel = "low" | "medium" | "high";
-
-type ConversionWindow = 7 | 14 | 30;
-
-interface SimulationInput {
-  spend: Record<Channel, number>;
-  model: AttributionModel;
-  window: ConversionWindow;
-  saturation: SaturationLevel;
-  noise: NoiseLevel;
-}
+const Index = () => {
+  const [channels, setChannels] = useState<ChannelDefinition[]>(defaultChannelDefinitions);
+  const [spend, setSpend] = useState<Record<Channel, number>>(() =>
+    byChannel(defaultChannelDefinitions(), (ch) => ch.defaultSpend),
+  );
+  const [model, setModel] = useState<AttributionModel>("bayesian_mmm");
+  const [window, setWindow] = useState<ConversionWindow>(30);
+  const [noise, setNoise] = useState<NoiseLevel>("medium");
+  const [markovOrder, setMarkovOrder] = useState<MarkovOrder>(1);
+  const [adstockType, setAdstockType] = useState<AdstockType>("geometric");
+  const [flight, setFlight] = useState<SpendFlight | null>(null);
+  const [objective, setObjective] = useState<OptimizationObjective>("conversions");
+  const [budgetChange, setBudgetChange] = useState(0);
+  const [maxWeeklyChange, setMaxWeeklyChange] = useState(0.3);
+  const [locked, setLocked] = useState<Channel[]>([]);
+  const [goal, setGoal] = useState<GoalTarget | null>(null);
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [groundTruth, setGroundTruth] = useState(false);
+  const [experiment, setExperiment] = useState<GeoExperiment>({
+    channel: DEFAULT_CHANNELS[0],
+    method: "synthetic_control",
+    treatedRegions: 5,
+    preWeeks: 12,
+    testWeeks: 6,
+  });
+  const [calibration, setCalibration] = useState<LiftTestResult[]>([]);
+  const [calendar, setCalendar] = useState<MarketingCalendar>(defaultCalendar);
+  const [baseline, setBaseline] = useState<BaselineDemand>(DEFAULT_BASELINE);
+  const [halo, setHalo] = useState<HaloEffect[]>(DEFAULT_HALO);
+  const [revenue, setRevenue] = useState<RevenueModel>(DEFAULT_REVENUE_MODEL);
+  const [funnel, setFunnel] = useState<FunnelModel>(defaultFunnel);
+  const [unitEconomics, setUnitEconomics] = useState<UnitEconomics>(DEFAULT_UNIT_ECONOMICS);
+  const [touchWindows, setTouchWindows] = useState<Partial<Record<Channel, TouchWindows>>>({});
+
+  const scenario = useMemo<Scenario>(
+    () => ({
+      channels,
+      spend,
+      model,
+      window,
+      noise,
+      markovOrder,
+      adstockType,
+      flights: flight ? [flight] : [],
+      budget: {
+        objective,
+        totalBudget: channels.reduce((sum, ch) => sum + (spend[ch.name] ?? 0), 0) * (1 + budgetChange),
+        maxWeeklyChange,
+        locked,
+      },
+      seed,
+      groundTruth,
+      experiment,
+      calibration,
+      calendar,
+      baseline,
+      halo,
+      revenue,
+      funnel,
+      unitEconomics,
+      touchWindows,
+    }),
+    [
+      channels,
+      spend,
+      model,
+      window,
+      noise,
+      markovOrder,
+      adstockType,
+      flight,
+      objective,
+      budgetChange,
+      maxWeeklyChange,
+      locked,
+      seed,
+      groundTruth,
+      experiment,
+      calibration,
+      calendar,
+      baseline,
+      halo,
+      revenue,
+      funnel,
+      unitEconomics,
+      touchWindows,
+    ],
+  );
 
-interface ChannelOutput {
-  channel: Channel;
-  roas: number;
-  cac: number;
-  attributedConversions: number;
-  incrementalConversions: number;
-  certainty: "Low" | "Medium" | "High";
-}
+  const { fit: mmmFit, fitting: mmmFitting, stale: mmmStale } = useBayesianMmm(
+    model === "bayesian_mmm" || groundTruth || halo.length > 0 ? scenario : null,
+  );
 
-interface BudgetPlanRow {
-  channel: Channel;
-  before: number;
-  after: number;
-}
+  // The same fit without lift tests, so calibrated and uncalibrated MMM estimates can be shown side by side.
+  const uncalibratedScenario = useMemo(
+    () => (calibration.length && (model === "bayesian_mmm" || groundTruth) ? { ...scenario, calibration: [] } : null),
+    [scenario, calibration, model, groundTruth],
+  );
+  const { fit: uncalibratedMmmFit } = useBayesianMmm(uncalibratedScenario);
 
-function simulateAttribution(input: SimulationInput): ChannelOutput[] {
-  const baseEfficiency: Record<Channel, number> = {
-    Meta: 3.2,
-    "Google Search": 4.0,
-    LinkedIn: 2.4,
+  const result = useMemo(
+    () => runScenario(scenario, { mmm: mmmFit, uncalibratedMmm: uncalibratedMmmFit }),
+    [scenario, mmmFit, uncalibratedMmmFit],
+  );
+  // The goal is solved separately from the scenario, once the inputs settle, so it never holds up a slider.
+  const { goalSeek, seeking: goalSeeking } = useGoalSeek(scenario, result, goal);
+  // Every channel's click and view windows, with the conversion window filling in for channels without their own.
+  const windows = useMemo(() => resolveTouchWindows(scenario), [scenario]);
+
+  const availableChannels = CHANNEL_REGISTRY.filter((def) => !channels.some((ch) => ch.name === def.name));
+
+  const addChannel = (name: Channel) => {
+    const definition = getChannelDefinition(name);
+    if (!definition) return;
+    setChannels((prev) => [...prev, definition]);
+    setSpend((prev) => ({ ...prev, [name]: prev[name] ?? definition.defaultSpend }));
   };
 
-  const prospectingWeight: Record<Channel, number> = {
-    Meta: 0.45,
-    "Google Search": 0.2,
-    LinkedIn: 0.7,
+  const removeChannel = (name: Channel) => {
+    setChannels((prev) => (prev.length > 1 ? prev.filter((ch) => ch.name !== name) : prev));
+    setFlight((prev) => (prev?.channel === name ? null : prev));
+    setLocked((prev) => prev.filter((ch) => ch !== name));
+    setExperiment((prev) =>
+      prev.channel === name ? { ...prev, channel: channels.find((ch) => ch.name !== name)?.name ?? name } : prev,
+    );
+    setCalibration((prev) => prev.filter((test) => test.channel !== name));
+    setHalo((prev) => prev.filter((effect) => effect.from !== name && effect.to !== name));
   };
 
-  const retargetingBias: Record<Channel, number> = {
-    Meta: 0.2,
-    "Google Search": 0.35,
-    LinkedIn: 0.1,
+  const applyGoalPlan = () => {
+    if (!goalSeek) return;
+    setSpend((prev) => ({
+      ...prev,
+      ...Object.fromEntries(goalSeek.rows.map((row) => [row.channel, Math.round(row.after / 5000) * 5000])),
+    }));
   };
 
-  const windowMultiplier: Record<ConversionWindow, number> = {
-    7: 0.8,
-    14: 0.95,
-    30: 1.1,
+  const toggleLocked = (name: Channel) => {
+    setLocked((prev) => (prev.includes(name) ? prev.filter((ch) => ch !== name) : [...prev, name]));
   };
 
-  const saturationPenalty = (level: SaturationLevel, spend: number): number => {
-    const normalizedSpend = spend / 100000;
-    const base = level === "low" ? 0.1 : level === "medium" ? 0.25 : 0.45;
-    return 1 - Math.min(base * normalizedSpend, base + 0.15);
+  const updateAdstock = (name: Channel, patch: Partial<ChannelDefinition["adstock"]>) => {
+    setChannels((prev) =>
+      prev.map((ch) => (ch.name === name ? { ...ch, adstock: { ...ch.adstock, ...patch } } : ch)),
+    );
   };
 
-  const noiseFactor = (level: NoiseLevel): number => {
-    if (level === "low") return 0.05;
-    if (level === "medium") return 0.12;
-    return 0.22;
+  const updateSaturation = (name: Channel, patch: Partial<SaturationParams>) => {
+    setChannels((prev) =>
+      prev.map((ch) => (ch.name === name ? { ...ch, saturation: { ...ch.saturation, ...patch } } : ch)),
+    );
   };
 
-  const modelWeights = (model: AttributionModel): Record<Channel, number> => {
-    switch (model) {
-      case "last_click":
-        return { Meta: 0.3, "Google Search": 0.55, LinkedIn: 0.15 };
-      case "position_based":
-        return { Meta: 0.4, "Google Search": 0.4, LinkedIn: 0.2 };
-      case "time_decay":
-        return { Meta: 0.35, "Google Search": 0.45, LinkedIn: 0.2 };
-      case "bayesian_mmm":
-        return { Meta: 0.38, "Google Search": 0.32, LinkedIn: 0.3 };
-    }
+  const applySaturationPreset = (level: SaturationLevel) => {
+    setChannels((prev) => prev.map((ch) => ({ ...ch, saturation: saturationPreset(ch, level) })));
   };
 
-  const weights = modelWeights(input.model);
-  const noise = noiseFactor(input.noise);
-
-  const totalSpend = CHANNELS.reduce((sum, ch) => sum + input.spend[ch], 0) || 1;
-
-  return CHANNELS.map((channel) => {
-    const spend = input.spend[channel];
-
-    const effectiveROAS =
-      baseEfficiency[channel] *
-      windowMultiplier[input.window] *
-      saturationPenalty(input.saturation, spend) *
-      (1 + (prospectingWeight[channel] - retargetingBias[channel]) * 0.2);
-
-    const attributedShare = weights[channel];
-    const noisyShare =
-      attributedShare +
-      (retargetingBias[channel] - prospectingWeight[channel]) * noise * (input.model === "last_click" ? 1.2 : 0.8);
-
-    const boundedShare = Math.max(0.05, Math.min(0.7, noisyShare));
-
-    const modeledRevenue = spend * effectiveROAS;
-    const blendedROAS = modeledRevenue / Math.max(spend, 1);
-    const conversions = modeledRevenue / 500;
-
-    const incrementalShare =
-      prospectingWeight[channel] * 0.6 +
-      (1 - retargetingBias[channel]) * 0.2 +
-      (input.model === "bayesian_mmm" ? 0.2 : 0.1);
-
-    const incrementalRevenue = modeledRevenue * incrementalShare * (1 - noise * 0.4);
-    const incrementalConversions = incrementalRevenue / 500;
-
-    const cac = spend / Math.max(conversions, 1);
+  // The preset every channel's curve currently matches, if any; editing a single curve makes it custom.
+  const saturationLevel =
+    (["low", "medium", "high"] as SaturationLevel[]).find((level) =>
+      channels.every((ch) => {
+        const preset = saturationPreset(ch, level);
+        return ch.saturation.halfSaturation === preset.halfSaturation && ch.saturation.slope === preset.slope;
+      }),
+    ) ?? "custom";
+
+  const simulateDesign = (design: LiftTestDesign) => {
+    setExperiment((prev) => ({
+      ...prev,
+      channel: design.channel,
+      treatedRegions: design.treatedRegions,
+      testWeeks: design.testWeeks,
+    }));
+    document.getElementById("experiments")?.scrollIntoView({ behavior: "smooth" });
+  };
 
-    let certainty: "Low" | "Medium" | "High" = "Medium";
-    if (input.model === "bayesian_mmm" && input.window === 30 && input.noise === "low") {
-      certainty = "High";
-    } else if (input.noise === "high" || input.window === 7) {
-      certainty = "Low";
+  const changeLiftTestMetric = (name: Channel, metric: LiftTestMetric | "none") => {
+    if (metric === "none") {
+      setCalibration((prev) => prev.filter((test) => test.channel !== name));
+      return;
     }
-
-    return {
-      channel,
-      roas: blendedROAS * boundedShare,
-      cac,
-      attributedConversions: conversions * boundedShare,
-      incrementalConversions,
-      certainty,
+    // Start from the model's own estimate with a ±20% interval, so adding a test changes nothing until it is edited.
+    const output = outputs.find((o) => o.channel === name);
+    const conversions = output?.uncalibratedIncrementalConversions ?? output?.incrementalConversions ?? 0;
+    const channelSpend = spend[name] ?? 0;
+    const estimate =
+      metric === "iroas"
+        ? Math.round(((conversions * stageValue(scenario, name)) / Math.max(channelSpend, 1)) * 10) / 10
+        : Math.round(conversions);
+    const round = (value: number) => (metric === "iroas" ? Math.round(value * 10) / 10 : Math.round(value));
+    const test: LiftTestResult = {
+      channel: name,
+      metric,
+      estimate,
+      low: round(estimate * 0.8),
+      high: round(estimate * 1.2),
+      confidence: 0.9,
+      spend: channelSpend,
     };
-  });
-}
-
-function deriveBudgetPlan(spend: Record<Channel, number>, model: AttributionModel): BudgetPlanRow[] {
-  const total = CHANNELS.reduce((sum, ch) => sum + spend[ch], 0) || 1;
-
-  const overCreditedBase: Record<Channel, number> = {
-    Meta: model === "last_click" ? 0.4 : 0.3,
-    "Google Search": model === "last_click" ? 0.55 : 0.45,
-    LinkedIn: 0.15,
+    setCalibration((prev) => [...prev.filter((t) => t.channel !== name), test]);
   };
 
-  const underCreditedBase: Record<Channel, number> = {
-    Meta: 0.35,
-    "Google Search": 0.2,
-    LinkedIn: 0.45,
+  const updateLiftTest = (name: Channel, patch: Partial<LiftTestResult>) => {
+    setCalibration((prev) => prev.map((test) => (test.channel === name ? { ...test, ...patch } : test)));
   };
 
-  const reallocationIntensity = model === "bayesian_mmm" ? 0.35 : 0.28;
-
-  const beforeShares = CHANNELS.reduce<Record<Channel, number>>((acc, ch) => {
-    acc[ch] = spend[ch] / total;
-    return acc;
-  }, {} as Record<Channel, number>);
-
-  let pool = 0;
-  const afterShares: Record<Channel, number> = { ...beforeShares };
-
-  CHANNELS.forEach((ch) => {
-    const over = overCreditedBase[ch];
-    const giveBack = Math.max(0, beforeShares[ch] - over) * reallocationIntensity;
-    afterShares[ch] = Math.max(0.08, beforeShares[ch] - giveBack);
-    pool += giveBack;
-  });
-
-  const totalUnderWeight = CHANNELS.reduce((sum, ch) => sum + underCreditedBase[ch], 0);
-
-  CHANNELS.forEach((ch) => {
-    const allocation = (underCreditedBase[ch] / totalUnderWeight) * pool;
-    afterShares[ch] += allocation;
-  });
-
-  const normalize = CHANNELS.reduce((sum, ch) => sum + afterShares[ch], 0) || 1;
-
-  return CHANNELS.map((channel) => ({
-    channel,
-    before: (beforeShares[channel] / normalize) * total,
-    after: (afterShares[channel] / normalize) * total,
-  }));
-}
-
-const currencyFormatter = new Intl.NumberFormat("en-US", {
-  style: "currency",
-  currency: "USD",
-  maximumFractionDigits: 0,
-});
-
-const numberFormatter = new Intl.NumberFormat("en-US", {
-  maximumFractionDigits: 1,
-});
-
-const percentFormatter = new Intl.NumberFormat("en-US", {
-  style: "percent",
-  maximumFractionDigits: 1,
-});
+  // A geo-lift readout covers the treated regions over the test; scale it to a national month at today's spend.
+  const calibrateFromExperiment = () => {
+    const readout = result.experiment;
+    if (!readout) return;
+    const treatedShare = readout.regions.filter((r) => r.treated).reduce((sum, r) => sum + r.share, 0);
+    const toMonthly = (value: number) =>
+      Math.round((value / Math.max(treatedShare, 1e-9) / readout.testWeeks) * WEEKS_PER_MONTH);
+    const test: LiftTestResult = {
+      channel: readout.channel,
+      metric: "conversions",
+      estimate: toMonthly(readout.lift.p50),
+      low: toMonthly(readout.lift.p10),
+      high: toMonthly(readout.lift.p90),
+      confidence: 0.8,
+      spend: spend[readout.channel] ?? 0,
+    };
+    setCalibration((prev) => [...prev.filter((t) => t.channel !== readout.channel), test]);
+  };
 
-const Index = () => {
-  const [spendMeta, setSpendMeta] = useState(120000);
-  const [spendGoogle, setSpendGoogle] = useState(90000);
-  const [spendLinkedIn, setSpendLinkedIn] = useState(60000);
-  const [model, setModel] = useState<AttributionModel>("bayesian_mmm");
-  const [window, setWindow] = useState<ConversionWindow>(30);
-  const [saturation, setSaturation] = useState<SaturationLevel>("medium");
-  const [noise, setNoise] = useState<NoiseLevel>("medium");
+  const updateUnitEconomics = (patch: Partial<UnitEconomics>) => {
+    setUnitEconomics((prev) => ({ ...prev, ...patch }));
+  };
 
-  const spend: Record<Channel, number> = {
-    Meta: spendMeta,
-    "Google Search": spendGoogle,
-    LinkedIn: spendLinkedIn,
+  const updateFlight = (patch: Partial<SpendFlight>) => {
+    setFlight((prev) => (prev ? { ...prev, ...patch } : prev));
   };
 
-  const outputs = useMemo(
-    () =>
-      simulateAttribution({
-        spend,
-        model,
-        window,
-        saturation,
-        noise,
-      }),
-    [spendMeta, spendGoogle, spendLinkedIn, model, window, saturation, noise],
+  const flightArea = flight
+    ? { x1: `W${flight.startWeek}`, x2: `W${Math.min(flight.startWeek + flight.weeks - 1, WEEKS)}` }
+    : null;
+  const flightLabel = flight
+    ? `${flight.channel} ${flight.change >= 0 ? "+" : ""}${Math.round(flight.change * 100)}%`
+    : "";
+
+  // Calendar annotations: single weeks as dashed markers, longer runs as shaded ranges. Marker labels alternate
+  // height so neighbouring weeks stay readable.
+  const calendarMarks = result.annotations.map((a, idx) =>
+    a.x1 === a.x2 ? (
+      <ReferenceLine
+        key={a.id}
+        x={a.x1}
+        stroke={ANNOTATION_COLORS[a.kind]}
+        strokeDasharray="3 3"
+        label={{ value: a.label, position: "insideTop", offset: 4 + (idx % 2) * 12, fontSize: 9 }}
+      />
+    ) : (
+      <ReferenceArea
+        key={a.id}
+        x1={a.x1}
+        x2={a.x2}
+        fill={ANNOTATION_COLORS[a.kind]}
+        fillOpacity={0.08}
+        label={{ value: a.label, position: "insideBottom", fontSize: 9 }}
+      />
+    ),
   );
 
-  const budgetPlan = useMemo(() => deriveBudgetPlan(spend, model), [spendMeta, spendGoogle, spendLinkedIn, model]);
+  const { outputs, budgetPlan, weeklySeries, weeklySeriesOptimized, perChannelWeeklySeries, cohorts: cohortTable } =
+    result;
+  const { totalSpend, totalRevenue, blendedROAS, blendedCAC, efficiencyGain: simulatedEfficiencyGain } = result.summary;
+
+  const economics = result.unitEconomics;
+
+  const convertedJourneys = result.journeys.filter((j) => j.converted).length;
 
-  const totalSpend = spendMeta + spendGoogle + spendLinkedIn;
-  const totalRevenue = outputs.reduce((sum, o) => sum + o.roas * spend[o.channel], 0);
-  const totalConversions = outputs.reduce((sum, o) => sum + o.attributedConversions, 0);
-  const blendedROAS = totalRevenue / Math.max(totalSpend, 1);
-  const blendedCAC = totalSpend / Math.max(totalConversions, 1);
+  const afterSpendTotal = budgetPlan.rows.reduce((sum, row) => sum + row.after, 0);
+  const objectiveLift = budgetPlan.afterValue / Math.max(budgetPlan.beforeValue, 1e-9) - 1;
+  const formatObjective = (value: number) =>
+    objective === "revenue" ? currencyFormatter.format(value) : `${numberFormatter.format(value)} conversions`;
 
-  const afterSpendTotal = budgetPlan.reduce((sum, row) => sum + row.after, 0) || 1;
-  const simulatedEfficiencyGain = model === "bayesian_mmm" ? 0.18 : model === "time_decay" ? 0.14 : 0.11;
+  // Error bars are offsets below and above the plotted value, spanning the p10–p90 band.
+  const errorRange = (value: number, { p10, p90 }: { p10: number; p90: number }) => [
+    Math.max(0, value - p10),
+    Math.max(0, p90 - value),
+  ];
 
   const roasChartData = outputs.map((o) => ({
     channel: o.channel,
     ROAS: Number(o.roas.toFixed(2)),
     CAC: Number(o.cac.toFixed(0)),
+    roasBand: errorRange(o.roas, o.bands.roas),
+    cacBand: errorRange(o.cac, o.bands.cac),
   }));
 
   const incrementalChartData = outputs.map((o) => ({
     channel: o.channel,
     Incremental: Number(o.incrementalConversions.toFixed(1)),
     Attributed: Number(o.attributedConversions.toFixed(1)),
+    Uncalibrated:
+      o.uncalibratedIncrementalConversions === undefined
+        ? undefined
+        : Number(o.uncalibratedIncrementalConversions.toFixed(1)),
+    incrementalBand: errorRange(o.incrementalConversions, o.bands.incrementalConversions),
   }));
 
-  const weeklySeries = useMemo(
-    () => {
-      const weeks = 12;
-      const baseRoas = blendedROAS || 1;
-      const baseCac = blendedCAC || 1;
-
-      const lagFactor = window === 7 ? 0.6 : window === 14 ? 0.8 : 1;
-      const saturationFactor = saturation === "low" ? 1.05 : saturation === "medium" ? 1 : 0.9;
-      const noiseAmplitude = noise === "low" ? 0.04 : noise === "medium" ? 0.08 : 0.14;
-      const trendDrift = model === "bayesian_mmm" ? 0.015 : model === "time_decay" ? 0.01 : 0.005;
-
-      let seed = Math.floor(
-        totalSpend / 1000 + (model === "bayesian_mmm" ? 17 : model === "time_decay" ? 11 : 5) + window,
-      );
-      const rand = () => {
-        seed = (seed * 9301 + 49297) % 233280;
-        return seed / 233280;
-      };
-
-      const startingRoas = baseRoas * lagFactor * saturationFactor;
-      const startingCac = baseCac / (lagFactor * saturationFactor || 1);
-
-      return Array.from({ length: weeks }, (_, idx) => {
-        const weekIndex = idx + 1;
-        const centeredIndex = weekIndex - (weeks / 2 + 0.5);
-        const structuralTrend = 1 + trendDrift * centeredIndex;
-        const shock = 1 + (rand() - 0.5) * 2 * noiseAmplitude;
-        const mmmNoise = 1 + (rand() - 0.5) * noiseAmplitude * 1.5;
-
-        const roas = startingRoas * structuralTrend * shock * mmmNoise;
-        const cac = startingCac * (2 - structuralTrend) * (1 + (rand() - 0.5) * noiseAmplitude);
-
-        return {
-          week: `W${weekIndex}`,
-          ROAS: Number(roas.toFixed(2)),
-          CAC: Number(Math.max(cac, 1).toFixed(0)),
-        };
-      });
-    },
-    [blendedROAS, blendedCAC, window, saturation, noise, model, totalSpend],
-  );
-
-  const weeklySeriesOptimized = useMemo(
-    () => {
-      const uplift = 1 + simulatedEfficiencyGain * 0.65;
-      const weeks = weeklySeries.length || 0;
-
-      return weeklySeries.map((point, idx) => {
-        const midPoint = weeks / 2 + 0.5;
-        const ramp = 0.9 + (idx + 1 - midPoint) * 0.01;
-        const boundedRamp = Math.max(0.8, Math.min(1.1, ramp));
-
-        return {
-          week: point.week,
-          ROAS: Number((point.ROAS * uplift * boundedRamp).toFixed(2)),
-          CAC: Number((point.CAC / (uplift * boundedRamp || 1)).toFixed(0)),
-        };
-      });
-    },
-    [weeklySeries, simulatedEfficiencyGain],
-  );
-
-  const perChannelWeeklySeries = useMemo(
-    () => {
-      const weeks = weeklySeries.length || 0;
-      if (!weeks) return [] as Array<{ week: string } & Record<Channel, number>>;
-
-      const baseRoasByChannel: Record<Channel, number> = CHANNELS.reduce((acc, ch) => {
-        const found = outputs.find((o) => o.channel === ch);
-        acc[ch] = found ? found.roas || 1 : 1;
-        return acc;
-      }, {} as Record<Channel, number>);
-
-      return Array.from({ length: weeks }, (_, idx) => {
-        const weekIndex = idx + 1;
-        const variance = 1 + (idx - weeks / 2) * 0.01;
-
-        const row: { week: string } & Record<Channel, number> = {
-          week: `W${weekIndex}`,
-          Meta: 0,
-          "Google Search": 0,
-          LinkedIn: 0,
-        } as { week: string } & Record<Channel, number>;
-
-        CHANNELS.forEach((ch, channelIdx) => {
-          const channelDrift = 1 + (channelIdx - 1) * 0.03;
-          const roas = baseRoasByChannel[ch] * variance * channelDrift;
-          row[ch] = Number(roas.toFixed(2));
-        });
-
-        return row;
-      });
-    },
-    [weeklySeries, outputs],
-  );
-
-  type CohortRow = {
-    bucket: string;
-    cumulative: number;
-    incremental: number;
-    note: string;
-  };
-
-  const cohortTable: CohortRow[] = useMemo(() => {
-    const baseCurve = window === 7 ? [0.55, 0.8, 0.95, 1] : window === 14 ? [0.35, 0.6, 0.8, 0.92, 0.98, 1] : [
-      0.18,
-      0.35,
-      0.55,
-      0.72,
-      0.85,
-      0.93,
-      0.97,
-      1,
-    ];
-
-    const noiseAdjust = noise === "low" ? 0.01 : noise === "medium" ? 0.03 : 0.06;
-
-    const rows: CohortRow[] = [];
-    let prev = 0;
-
-    baseCurve.forEach((cum, idx) => {
-      const adjustedCum = Math.max(0, Math.min(1, cum + (idx - baseCurve.length / 2) * noiseAdjust * 0.1));
-      const incremental = Math.max(0, adjustedCum - prev);
-      prev = adjustedCum;
-
-      rows.push({
-        bucket: idx === 0 ? "Week 0–1" : `Week ${idx}–${idx + 1}`,
-        cumulative: adjustedCum,
-        incremental,
-        note:
-          idx === 0
-            ? "Short-lag, lower-funnel dominated conversions."
-            : idx < 3
-              ? "Mix of retargeting and some prospecting-driven conversions."
-              : "Longer-lag, prospecting-heavy cohorts with higher modeled incremental lift.",
-      });
-    });
-
-    return rows;
-  }, [window, noise]);
-
   return (
     <div className="min-h-screen bg-[hsl(var(--surface-subtle))]">
       {/* Prateek Karn Site Header */}
@@ -547,34 +536,37 @@ const Index = () => {
                     </span>
                   </div>
 
-                  <InputSlider
-                    label="Meta Ads"
-                    value={spendMeta}
-                    min={20000}
-                    max={250000}
-                    step={5000}
-                    onChange={setSpendMeta}
-                  />
-
-                  <InputSlider
-                    label="Google Search"
-                    value={spendGoogle}
-                    min={20000}
-                    max={250000}
-                    step={5000}
-                    onChange={setSpendGoogle}
-                  />
-
-                  <InputSlider
-                    label="LinkedIn Ads"
-                    value={spendLinkedIn}
-                    min={15000}
-                    max={200000}
-                    step={5000}
-                    onChange={setSpendLinkedIn}
-                  />
+                  {channels.map((ch) => (
+                    <InputSlider
+                      key={ch.name}
+                      label={ch.label}
+                      value={spend[ch.name] ?? ch.defaultSpend}
+                      min={ch.minSpend}
+                      max={ch.maxSpend}
+                      step={5000}
+                      onChange={(value) => setSpend((prev) => ({ ...prev, [ch.name]: value }))}
+                      onRemove={channels.length > 1 ? () => removeChannel(ch.name) : undefined}
+                    />
+                  ))}
+
+                  {availableChannels.length > 0 && (
+                    <Select value="" onValueChange={(v) => addChannel(v)}>
+                      <SelectTrigger className="h-9 text-xs">
+                        <SelectValue placeholder="Add a channel…" />
+                      </SelectTrigger>
+                      <SelectContent className="text-xs">
+                        {availableChannels.map((def) => (
+                          <SelectItem key={def.name} value={def.name}>
+                            {def.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
 
+                <GoalControls goal={goal} summary={result.summary} onChange={setGoal} />
+
                 <div className="grid gap-4 md:grid-cols-2">
                   <div className="space-y-2">
                     <p className="text-xs font-medium text-muted-foreground">Attribution model</p>
@@ -586,7 +578,9 @@ const Index = () => {
                         <SelectItem value="last_click">Last click (rule-based)</SelectItem>
                         <SelectItem value="position_based">Position-based / U-shaped (40-20-40)</SelectItem>
                         <SelectItem value="time_decay">Time-decay (recency weighted)</SelectItem>
-                        <SelectItem value="bayesian_mmm">Bayesian MMM (simplified)</SelectItem>
+                        <SelectItem value="markov">Markov chain (removal effect)</SelectItem>
+                        <SelectItem value="shapley">Shapley value (coalitions)</SelectItem>
+                        <SelectItem value="bayesian_mmm">Bayesian MMM (MCMC)</SelectItem>
                       </SelectContent>
                     </Select>
                     <p className="text-[11px] text-muted-foreground leading-snug">
@@ -608,13 +602,370 @@ const Index = () => {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  {model === "markov" && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-medium text-muted-foreground">Markov chain order</p>
+                      <Select
+                        value={String(markovOrder)}
+                        onValueChange={(v) => setMarkovOrder(Number(v) as MarkovOrder)}
+                      >
+                        <SelectTrigger className="h-9 text-xs">
+                          <SelectValue placeholder="Select order" />
+                        </SelectTrigger>
+                        <SelectContent className="text-xs">
+                          <SelectItem value="1">First-order</SelectItem>
+                          <SelectItem value="2">Second-order</SelectItem>
+                          <SelectItem value="3">Third-order</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                 </div>
 
+                <Accordion type="single" collapsible>
+                  <AccordionItem value="carry_over" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Carry-over (adstock) & spend flighting
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      <OptionTabs
+                        label="Adstock transform"
+                        value={adstockType}
+                        onChange={(value) => setAdstockType(value as AdstockType)}
+                        options={[
+                          { value: "geometric", label: "Geometric" },
+                          { value: "weibull", label: "Weibull" },
+                        ]}
+                      />
+
+                      {channels.map((ch) => (
+                        <div key={ch.name} className="grid gap-2 md:grid-cols-2">
+                          <InputSlider
+                            label={`${ch.label} decay`}
+                            value={ch.adstock.decay}
+                            min={0}
+                            max={0.9}
+                            step={0.05}
+                            format={(v) => v.toFixed(2)}
+                            onChange={(value) => updateAdstock(ch.name, { decay: value })}
+                          />
+                          {adstockType === "weibull" && (
+                            <InputSlider
+                              label="Shape"
+                              value={ch.adstock.shape}
+                              min={0.5}
+                              max={3}
+                              step={0.1}
+                              format={(v) => v.toFixed(1)}
+                              onChange={(value) => updateAdstock(ch.name, { shape: value })}
+                            />
+                          )}
+                        </div>
+                      ))}
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        Decay is the share of a week&apos;s effect that carries into the next. Weibull shapes above 1
+                        hold the effect for a few weeks before it drops; below 1 it fades fast with a long tail.
+                      </p>
+
+                      <div className="space-y-2">
+                        <p className="text-xs font-medium text-muted-foreground">Spend pulse or cut</p>
+                        <Select
+                          value={flight?.channel ?? "none"}
+                          onValueChange={(v) =>
+                            setFlight((prev) =>
+                              v === "none" ? null : { startWeek: 4, weeks: 2, change: 1, ...prev, channel: v },
+                            )
+                          }
+                        >
+                          <SelectTrigger className="h-9 text-xs">
+                            <SelectValue placeholder="Select channel" />
+                          </SelectTrigger>
+                          <SelectContent className="text-xs">
+                            <SelectItem value="none">No flight (steady spend)</SelectItem>
+                            {channels.map((ch) => (
+                              <SelectItem key={ch.name} value={ch.name}>
+                                {ch.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {flight && (
+                          <div className="grid gap-2 md:grid-cols-3">
+                            <InputSlider
+                              label="Spend change"
+                              value={flight.change}
+                              min={-1}
+                              max={2}
+                              step={0.1}
+                              format={(v) => `${v >= 0 ? "+" : ""}${Math.round(v * 100)}%`}
+                              onChange={(value) => updateFlight({ change: value })}
+                            />
+                            <InputSlider
+                              label="Start week"
+                              value={flight.startWeek}
+                              min={1}
+                              max={WEEKS}
+                              step={1}
+                              format={(v) => `W${v}`}
+                              onChange={(value) => updateFlight({ startWeek: value })}
+                            />
+                            <InputSlider
+                              label="Duration"
+                              value={flight.weeks}
+                              min={1}
+                              max={6}
+                              step={1}
+                              format={(v) => `${v} wk`}
+                              onChange={(value) => updateFlight({ weeks: value })}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="saturation" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Response curves (Hill saturation)
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      {channels.map((ch) => (
+                        <div key={ch.name} className="grid gap-2 md:grid-cols-2">
+                          <InputSlider
+                            label={`${ch.label} half-saturation`}
+                            value={ch.saturation.halfSaturation}
+                            min={Math.round(ch.defaultSpend / 4 / 5000) * 5000 || 5000}
+                            max={ch.defaultSpend * 8}
+                            step={5000}
+                            onChange={(value) => updateSaturation(ch.name, { halfSaturation: value })}
+                          />
+                          <InputSlider
+                            label="Slope"
+                            value={ch.saturation.slope}
+                            min={0.3}
+                            max={3}
+                            step={0.1}
+                            format={(v) => v.toFixed(1)}
+                            onChange={(value) => updateSaturation(ch.name, { slope: value })}
+                          />
+                        </div>
+                      ))}
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        Half-saturation is the monthly spend at which a channel reaches half its maximum effect.
+                        Slope 1 gives steady diminishing returns; flatter slopes saturate sooner, and steeper slopes
+                        give an S-curve where too little spend barely registers. The low / medium / high presets below
+                        reset every channel&apos;s curve.
+                      </p>
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="baseline" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Organic baseline & brand search
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      <div className="grid gap-2 md:grid-cols-2">
+                        <InputSlider
+                          label="Organic & direct conversions / month"
+                          value={baseline.organicConversions}
+                          min={0}
+                          max={1500}
+                          step={50}
+                          format={(v) => numberFormatter.format(v)}
+                          onChange={(value) => setBaseline((prev) => ({ ...prev, organicConversions: value }))}
+                        />
+                        <InputSlider
+                          label="Captured by brand-search ads"
+                          value={baseline.brandedSearchShare}
+                          min={0}
+                          max={0.8}
+                          step={0.05}
+                          format={(v) => percentFormatter.format(v)}
+                          onChange={(value) => setBaseline((prev) => ({ ...prev, brandedSearchShare: value }))}
+                        />
+                      </div>
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        Baseline demand converts with or without paid media. The captured share searches for the brand
+                        by name and clicks a Google Search or Microsoft Ads brand ad on the way, so click-based models
+                        credit those conversions to search even though turning the ads off would barely change them.
+                      </p>
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="halo" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Cross-channel halo
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <HaloControls halo={halo} channels={channels} onChange={setHalo} />
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="revenue" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Deal value & revenue
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <RevenueControls revenue={revenue} channels={channels} onChange={setRevenue} />
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="funnel" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Funnel stages
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <FunnelControls funnel={funnel} channels={channels} onChange={setFunnel} />
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="unit_economics" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Unit economics
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <InputSlider
+                          label="Gross margin"
+                          value={unitEconomics.grossMargin}
+                          min={0.3}
+                          max={0.95}
+                          step={0.05}
+                          format={(v) => percentFormatter.format(v)}
+                          onChange={(value) => updateUnitEconomics({ grossMargin: value })}
+                        />
+                        <InputSlider
+                          label="Monthly churn"
+                          value={unitEconomics.monthlyChurn}
+                          min={0}
+                          max={0.1}
+                          step={0.005}
+                          format={(v) => percentFormatter.format(v)}
+                          onChange={(value) => updateUnitEconomics({ monthlyChurn: value })}
+                        />
+                        <InputSlider
+                          label="Monthly expansion"
+                          value={unitEconomics.expansionRate}
+                          min={0}
+                          max={0.05}
+                          step={0.005}
+                          format={(v) => percentFormatter.format(v)}
+                          onChange={(value) => updateUnitEconomics({ expansionRate: value })}
+                        />
+                        <InputSlider
+                          label="Months to ramp"
+                          value={unitEconomics.rampMonths}
+                          min={0}
+                          max={12}
+                          step={1}
+                          format={(v) => `${v} mo`}
+                          onChange={(value) => updateUnitEconomics({ rampMonths: value })}
+                        />
+                      </div>
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        Each closed-won deal is read as an annual contract, so a customer pays a twelfth of its deal
+                        value a month once ramped. Margin, churn and expansion turn that into lifetime value, and CAC
+                        payback is how many months of margin it takes to earn back the spend behind the customer.
+                      </p>
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="touch_windows" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Click & view windows
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <TouchWindowControls
+                        channels={channels}
+                        windows={windows}
+                        conversionWindow={window}
+                        onChange={setTouchWindows}
+                      />
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="calendar" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Seasonality, holidays & promos
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <CalendarPanel calendar={calendar} onChange={setCalendar} />
+                    </AccordionContent>
+                  </AccordionItem>
+
+                  <AccordionItem value="calibration" className="border-b-0">
+                    <AccordionTrigger className="py-2 text-xs font-medium hover:no-underline">
+                      Lift-test calibration
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-3">
+                      {channels.map((ch) => {
+                        const test = calibration.find((t) => t.channel === ch.name);
+                        const step = test?.metric === "iroas" ? 0.1 : 1;
+                        return (
+                          <div key={ch.name} className="space-y-2 rounded-lg border bg-background/80 p-3">
+                            <div className="flex items-center justify-between gap-2 text-xs">
+                              <span className="font-medium">{ch.label}</span>
+                              <Select
+                                value={test?.metric ?? "none"}
+                                onValueChange={(value) =>
+                                  changeLiftTestMetric(ch.name, value as LiftTestMetric | "none")
+                                }
+                              >
+                                <SelectTrigger className="h-8 w-48 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="text-xs">
+                                  <SelectItem value="none">No lift test</SelectItem>
+                                  <SelectItem value="conversions">Incremental conversions</SelectItem>
+                                  <SelectItem value="iroas">Incremental ROAS</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            {test && (
+                              <div className="grid grid-cols-3 gap-2">
+                                {(
+                                  [
+                                    ["estimate", "Estimate"],
+                                    ["low", `${percentFormatter.format(test.confidence ?? 0.9)} low`],
+                                    ["high", `${percentFormatter.format(test.confidence ?? 0.9)} high`],
+                                  ] as const
+                                ).map(([field, label]) => (
+                                  <label key={field} className="space-y-1 text-[11px] text-muted-foreground">
+                                    <span>{label}</span>
+                                    <Input
+                                      type="number"
+                                      min={0}
+                                      step={step}
+                                      value={test[field]}
+                                      onChange={(e) =>
+                                        updateLiftTest(ch.name, { [field]: Math.max(0, Number(e.target.value) || 0) })
+                                      }
+                                      className="h-8 font-mono text-xs"
+                                    />
+                                  </label>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                      <p className="text-[11px] text-muted-foreground leading-snug">
+                        Enter each experiment&apos;s monthly incremental conversions, or its incremental ROAS, with
+                        the interval it reported. Bayesian MMM uses the results as priors on the channel&apos;s
+                        contribution; the other models blend their incremental estimate with the test, weighted by how
+                        precise each is. Tests are carried over to today&apos;s spend along the channel&apos;s response
+                        curve.
+                      </p>
+                    </AccordionContent>
+                  </AccordionItem>
+                </Accordion>
+
                 <div className="grid gap-4 md:grid-cols-2">
                   <OptionTabs
                     label="Saturation & diminishing returns"
-                    value={saturation}
-                    onChange={(value) => setSaturation(value as SaturationLevel)}
+                    value={saturationLevel}
+                    onChange={(value) => applySaturationPreset(value as SaturationLevel)}
                     options={[
                       { value: "low", label: "Low" },
                       { value: "medium", label: "Medium" },
@@ -633,6 +984,44 @@ const Index = () => {
                     ]}
                   />
                 </div>
+
+                <div className="flex items-center justify-between gap-3 rounded-lg border bg-background/80 p-3">
+                  <div className="space-y-0.5">
+                    <p className="text-xs font-medium">Ground-truth mode</p>
+                    <p className="text-[11px] text-muted-foreground leading-snug">
+                      Score every attribution model against the simulator&apos;s known incremental effects.
+                    </p>
+                  </div>
+                  <Switch checked={groundTruth} onCheckedChange={setGroundTruth} aria-label="Ground-truth mode" />
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground">Random seed</p>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={seed}
+                      onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                      className="h-9 font-mono text-xs"
+                      aria-label="Random seed"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-9 gap-1 text-xs"
+                      onClick={() => setSeed(Math.floor(Math.random() * 1e9))}
+                    >
+                      <Dices className="h-3.5 w-3.5" />
+                      Re-roll
+                    </Button>
+                  </div>
+                  <p className="text-[11px] text-muted-foreground leading-snug">
+                    Journeys, MMM history, Monte Carlo bands and weekly noise all draw from this seed. The same seed
+                    and inputs always reproduce the same numbers.
+                  </p>
+                </div>
               </CardContent>
             </Card>
 
@@ -654,8 +1043,32 @@ const Index = () => {
                   value={currencyFormatter.format(totalRevenue)}
                   helper="Attribution-adjusted revenue for the selected window."
                 />
+                <SummaryMetric
+                  label="Blended LTV:CAC"
+                  value={`${numberFormatter.format(economics.blended.ltvToCac)}×`}
+                  helper="Gross-margin lifetime value per customer / blended CAC."
+                />
+                <SummaryMetric
+                  label="CAC payback"
+                  value={formatPayback(economics.blended.paybackMonths)}
+                  helper="Months of gross margin to earn back the spend behind a customer."
+                />
+                <SummaryMetric
+                  label="Customer LTV"
+                  value={currencyFormatter.format(economics.blended.ltv)}
+                  helper="After margin, churn, expansion and ramp."
+                />
               </div>
 
+              {goalSeek && (
+                <GoalSeekPanel
+                  goalSeek={goalSeek}
+                  seeking={goalSeeking}
+                  totalSpend={totalSpend}
+                  onApply={applyGoalPlan}
+                />
+              )}
+
               {/* Channel performance */}
               <Card className="relative overflow-hidden border-border/80 shadow-sm">
                 <div className="pointer-events-none absolute inset-x-6 top-0 h-10 rounded-b-[32px] border border-primary/30 bg-gradient-to-b from-primary/5 to-transparent" />
@@ -667,7 +1080,7 @@ const Index = () => {
                 </CardHeader>
                 <CardContent className="relative z-10 pt-4 space-y-4">
                   <Tabs defaultValue="roas" className="space-y-3">
-                    <TabsList className="grid w-full grid-cols-3 bg-muted/70">
+                    <TabsList className="grid w-full grid-cols-6 bg-muted/70">
                       <TabsTrigger value="roas" className="text-xs">
                         ROAS & CAC
                       </TabsTrigger>
@@ -677,6 +1090,15 @@ const Index = () => {
                       <TabsTrigger value="time" className="text-xs">
                         Time-series (weekly)
                       </TabsTrigger>
+                      <TabsTrigger value="curves" className="text-xs">
+                        Response curves
+                      </TabsTrigger>
+                      <TabsTrigger value="markov" className="text-xs">
+                        Markov chain
+                      </TabsTrigger>
+                      <TabsTrigger value="shapley" className="text-xs">
+                        Shapley
+                      </TabsTrigger>
                     </TabsList>
 
                     <TabsContent value="roas" className="space-y-3">
@@ -707,11 +1129,20 @@ const Index = () => {
                               }
                             />
                             <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
-                            <Bar yAxisId="left" dataKey="ROAS" fill="hsl(var(--primary))" radius={4} maxBarSize={45} />
-                            <Bar yAxisId="right" dataKey="CAC" fill="hsl(var(--accent))" radius={4} maxBarSize={45} />
+                            <Bar yAxisId="left" dataKey="ROAS" fill="hsl(var(--primary))" radius={4} maxBarSize={45}>
+                              <ErrorBar dataKey="roasBand" width={4} strokeWidth={1} stroke="hsl(var(--foreground))" />
+                            </Bar>
+                            <Bar yAxisId="right" dataKey="CAC" fill="hsl(var(--accent))" radius={4} maxBarSize={45}>
+                              <ErrorBar dataKey="cacBand" width={4} strokeWidth={1} stroke="hsl(var(--foreground))" />
+                            </Bar>
                           </BarChart>
                         </ResponsiveContainer>
                       </div>
+                      <p className="text-[11px] text-muted-foreground">
+                        {model === "bayesian_mmm"
+                          ? "Bayesian MMM spreads modeled conversions in proportion to each channel's posterior incremental contribution."
+                          : `Credit is assigned by walking ${numberFormatter.format(convertedJourneys)} converted paths out of ${numberFormatter.format(result.journeys.length)} simulated journeys; touches outside the ${window}-day window or lost to tracking get no credit.`}
+                      </p>
                     </TabsContent>
 
                     <TabsContent value="incremental" className="space-y-3">
@@ -724,10 +1155,31 @@ const Index = () => {
                             <RechartsTooltip contentStyle={{ fontSize: 11 }} />
                             <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
                             <Bar dataKey="Attributed" fill="hsl(var(--muted-foreground))" radius={4} />
-                            <Bar dataKey="Incremental" fill="hsl(var(--primary))" radius={4} />
+                            {calibration.length > 0 && (
+                              <Bar dataKey="Uncalibrated" fill="hsl(var(--primary))" fillOpacity={0.35} radius={4} />
+                            )}
+                            <Bar
+                              dataKey="Incremental"
+                              name={calibration.length > 0 ? "Calibrated" : "Incremental"}
+                              fill="hsl(var(--primary))"
+                              radius={4}
+                            >
+                              <ErrorBar
+                                dataKey="incrementalBand"
+                                width={4}
+                                strokeWidth={1}
+                                stroke="hsl(var(--foreground))"
+                              />
+                            </Bar>
                           </BarChart>
                         </ResponsiveContainer>
                       </div>
+                      {calibration.length > 0 && (
+                        <CalibrationPanel outputs={outputs} tests={calibration} channels={channels} />
+                      )}
+                      {model === "bayesian_mmm" && (
+                        <MmmPosteriorPanel fit={result.mmm} fitting={mmmFitting} stale={mmmStale} />
+                      )}
                     </TabsContent>
 
                     <TabsContent value="time" className="space-y-3">
@@ -785,12 +1237,33 @@ const Index = () => {
                         stable.
                       </p>
                     </TabsContent>
+
+                    <TabsContent value="curves" className="space-y-3">
+                      <ResponseCurvesPanel curves={result.responseCurves} channels={channels} />
+                    </TabsContent>
+
+                    <TabsContent value="markov" className="space-y-3">
+                      <MarkovPanel markov={result.markov} channels={channels} />
+                    </TabsContent>
+
+                    <TabsContent value="shapley" className="space-y-3">
+                      <ShapleyPanel
+                        shapley={result.shapley}
+                        journeys={result.journeys}
+                        channels={channels}
+                        windows={windows}
+                      />
+                    </TabsContent>
                   </Tabs>
 
                   <div className="mt-2 rounded-lg border border-dashed border-border/70 bg-muted/60 p-3 text-xs text-muted-foreground">
                     <p>
-                      Confidence bands are directional. Longer windows and Bayesian MMM assumptions generally increase
-                      certainty, while high noise and short windows reduce it.
+                      Error bars span p10–p90 over {numberFormatter.format(MONTE_CARLO_DRAWS)} Monte Carlo draws of
+                      channel efficiency, incremental share and measurement noise
+                      {model === "bayesian_mmm" && result.mmm
+                        ? ", with incremental conversions drawn from each channel's MMM posterior."
+                        : "; higher noise and shorter windows widen them."}{" "}
+                      Certainty reflects how wide the band on incremental conversions is relative to its median.
                     </p>
                     <div className="mt-2 grid gap-1 md:grid-cols-3">
                       {outputs.map((o) => (
@@ -808,6 +1281,9 @@ const Index = () => {
                             />
                             {o.certainty} certainty
                           </span>
+                          <span className="text-[10px] text-muted-foreground">
+                            ROAS {o.bands.roas.p10.toFixed(2)}–{o.bands.roas.p90.toFixed(2)}
+                          </span>
                         </div>
                       ))}
                     </div>
@@ -815,6 +1291,110 @@ const Index = () => {
                 </CardContent>
               </Card>
 
+              {/* Contribution breakdown */}
+              <Card className="border-border/80 bg-card shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-sm">Where conversions come from</CardTitle>
+                  <CardDescription className="text-xs max-w-2xl">
+                    Monthly conversions split into organic demand, branded searches, existing demand that ads happen
+                    to touch, and each channel&apos;s incremental effect, next to how the selected model credits them.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ContributionPanel breakdown={result.contributions} channels={channels} />
+                </CardContent>
+              </Card>
+
+              {/* Funnel by channel */}
+              {result.funnel && (
+                <Card className="border-border/80 bg-card shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="text-sm">Funnel by channel</CardTitle>
+                    <CardDescription className="text-xs max-w-2xl">
+                      Monthly leads, MQLs, SQLs, opportunities and closed-won deals from each channel, with the cost
+                      of each and how long leads take to get there.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <FunnelPanel report={result.funnel} channels={channels} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Unit economics */}
+              <Card className="border-border/80 bg-card shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-sm">Unit economics by channel</CardTitle>
+                  <CardDescription className="text-xs max-w-2xl">
+                    CAC, lifetime value and payback per channel from the selected model&apos;s credit, blended across
+                    channels and under the budget plan.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <UnitEconomicsPanel report={economics} channels={channels} />
+                </CardContent>
+              </Card>
+
+              {/* Platform self-reporting */}
+              <Card className="border-border/80 bg-card shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-sm">Platform-reported vs. de-duplicated conversions</CardTitle>
+                  <CardDescription className="text-xs max-w-2xl">
+                    What each ad platform, from Meta Ads Manager to Google Ads and LinkedIn Campaign Manager, would
+                    report under its default click and view windows, next to conversions counted once.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PlatformPanel report={result.platforms} channels={channels} />
+                </CardContent>
+              </Card>
+
+              {/* View-through windows */}
+              <Card className="border-border/80 bg-card shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-sm">View-through window inflation</CardTitle>
+                  <CardDescription className="text-xs max-w-2xl">
+                    How each channel&apos;s attributed conversions grow as its view-through window widens from none to
+                    four weeks.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ViewWindowPanel report={result.viewWindows} channels={channels} />
+                </CardContent>
+              </Card>
+
+              {/* Cross-channel halo */}
+              {result.halo && (
+                <Card className="border-border/80 bg-card shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="text-sm">Cross-channel halo</CardTitle>
+                    <CardDescription className="text-xs max-w-2xl">
+                      Conversions one channel causes through another, and how last click and the MMM assign them
+                      compared with each channel&apos;s true effect.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <HaloPanel report={result.halo} channels={channels} mmmPending={!mmmFit || mmmStale} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Ground-truth scorecard */}
+              {result.groundTruth && (
+                <Card className="border-border/80 bg-card shadow-sm">
+                  <CardHeader>
+                    <CardTitle className="text-sm">Model scorecard vs. ground truth</CardTitle>
+                    <CardDescription className="text-xs max-w-2xl">
+                      How far each attribution model&apos;s view of every channel sits from the incremental effect the
+                      simulator actually planted.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <GroundTruthPanel report={result.groundTruth} mmmPending={!mmmFit || mmmStale} />
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Time-series & cohorts card */}
               <Card className="border-border/80 bg-card shadow-sm">
                 <CardHeader>
@@ -855,6 +1435,16 @@ const Index = () => {
                               formatter={(value: number) => numberFormatter.format(value)}
                             />
                             <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+                            {flightArea && (
+                              <ReferenceArea
+                                x1={flightArea.x1}
+                                x2={flightArea.x2}
+                                fill="hsl(var(--muted))"
+                                fillOpacity={0.5}
+                                label={{ value: flightLabel, position: "insideTop", fontSize: 10 }}
+                              />
+                            )}
+                            {calendarMarks}
                             <Line
                               type="monotone"
                               dataKey="ROAS"
@@ -894,6 +1484,16 @@ const Index = () => {
                               formatter={(value: number) => currencyFormatter.format(value)}
                             />
                             <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
+                            {flightArea && (
+                              <ReferenceArea
+                                x1={flightArea.x1}
+                                x2={flightArea.x2}
+                                fill="hsl(var(--muted))"
+                                fillOpacity={0.5}
+                                label={{ value: flightLabel, position: "insideTop", fontSize: 10 }}
+                              />
+                            )}
+                            {calendarMarks}
                             <Line
                               type="monotone"
                               dataKey="CAC"
@@ -921,7 +1521,10 @@ const Index = () => {
                       <p className="text-[11px] text-muted-foreground">
                         Optimized curves apply the modeled efficiency gain while preserving week-to-week volatility,
                         illustrating how MMM-style reallocation affects trend-level ROAS and CAC rather than any
-                        single point estimate.
+                        single point estimate. Spend pulses and cuts play out through each channel&apos;s adstock, so
+                        their effect lingers after the shaded weeks end. Dashed markers and shaded ranges show the
+                        marketing calendar: holidays, promos and seasonal peaks and lows move both baseline demand and
+                        how hard paid media converts.
                       </p>
                     </TabsContent>
 
@@ -942,33 +1545,33 @@ const Index = () => {
                               formatter={(value: number) => numberFormatter.format(value)}
                             />
                             <Legend formatter={(value) => <span className="text-xs">{value}</span>} />
-                            <Line
-                              type="monotone"
-                              dataKey="Meta"
-                              stroke="hsl(var(--primary))"
-                              strokeWidth={2}
-                              dot={false}
-                            />
-                            <Line
-                              type="monotone"
-                              dataKey="Google Search"
-                              stroke="hsl(var(--accent))"
-                              strokeWidth={2}
-                              dot={false}
-                            />
-                            <Line
-                              type="monotone"
-                              dataKey="LinkedIn"
-                              stroke="hsl(var(--muted-foreground))"
-                              strokeWidth={2}
-                              dot={false}
-                            />
+                            {flightArea && (
+                              <ReferenceArea
+                                x1={flightArea.x1}
+                                x2={flightArea.x2}
+                                fill="hsl(var(--muted))"
+                                fillOpacity={0.5}
+                                label={{ value: flightLabel, position: "insideTop", fontSize: 10 }}
+                              />
+                            )}
+                            {calendarMarks}
+                            {channels.map((ch) => (
+                              <Line
+                                key={ch.name}
+                                type="monotone"
+                                dataKey={ch.name}
+                                stroke={ch.color}
+                                strokeWidth={2}
+                                dot={false}
+                              />
+                            ))}
                           </LineChart>
                         </ResponsiveContainer>
                       </div>
                       <p className="text-[11px] text-muted-foreground">
-                        Channel curves are scaled off the modeled ROAS for each platform, highlighting how Meta,
-                        Google Search, and LinkedIn respond differently to lag, saturation, and volatility.
+                        Channel curves are scaled off the modeled ROAS for each platform, highlighting how each
+                        channel responds differently to lag, saturation, carry-over, volatility and the calendar; a
+                        promo aimed at one channel lifts only that channel&apos;s curve.
                       </p>
                     </TabsContent>
 
@@ -1011,31 +1614,81 @@ const Index = () => {
                   <CardTitle className="text-sm flex items-center justify-between gap-3">
                     Decision-grade summary
                     <span className="rounded-full bg-background/80 px-2 py-0.5 text-[11px] font-medium text-muted-foreground">
-                      Model: {model === "bayesian_mmm" ? "Bayesian MMM (simplified)" : model.replace("_", " ")}
+                      Response: {model === "bayesian_mmm" ? "MMM posterior" : "structural estimate"}
                     </span>
                   </CardTitle>
                   <CardDescription className="text-xs max-w-2xl">
-                    Based on the current assumptions, the system recommends reallocating budget away from over-credited
-                    lower-funnel impressions towards under-credited demand creation to improve blended CAC.
+                    Budget optimised against each channel&apos;s incremental response curve, within the spend bounds,
+                    week-over-week limit and locks below. Only the Bayesian MMM and calibrating lift tests change those
+                    curves: the click-based models split credit differently but share the simulator&apos;s structural
+                    incremental estimate, so they all give the same plan.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="grid gap-4 md:grid-cols-[minmax(0,1.1fr)_minmax(0,1.2fr)] items-start">
-                  <div className="space-y-2 text-xs">
+                  <div className="space-y-3 text-xs">
+                    {budgetPlan.feasible ? (
+                      <p>
+                        Moving <span className="font-semibold">{currencyFormatter.format(budgetPlan.reallocated)}</span>{" "}
+                        of monthly spend between channels changes modeled{" "}
+                        {objective === "revenue" ? "incremental revenue" : "incremental conversions"} from{" "}
+                        {formatObjective(budgetPlan.beforeValue)} to{" "}
+                        <span className="font-semibold">{formatObjective(budgetPlan.afterValue)}</span> (
+                        {objectiveLift >= 0 ? "+" : ""}
+                        {percentFormatter.format(objectiveLift)}), or{" "}
+                        <span className="font-semibold">
+                          {simulatedEfficiencyGain >= 0 ? "+" : ""}
+                          {percentFormatter.format(simulatedEfficiencyGain)}
+                        </span>{" "}
+                        per dollar.
+                      </p>
+                    ) : (
+                      <p className="text-destructive">
+                        No allocation meets every constraint: the channel minimums, locks and week-over-week limit
+                        cannot add up to a {currencyFormatter.format(budgetPlan.totalBudget)} budget. The plan below
+                        sits at the closest bounds.
+                      </p>
+                    )}
                     <p>
-                      Reallocating approximately <span className="font-semibold">30% of spend</span> from
-                      over-credited channels to under-credited channels improves modeled blended CAC by roughly
-                      <span className="font-semibold"> {percentFormatter.format(simulatedEfficiencyGain)}</span> while
-                      preserving overall volume.
-                    </p>
-                    <p className="text-muted-foreground">
-                      The exact mix will depend on your vertical, payback targets, and appetite for short-term
-                      volatility, but the directional signal is robust across most noise scenarios.
+                      Blended CAC payback goes from {formatPayback(economics.blended.paybackMonths)} to{" "}
+                      <span className="font-semibold">{formatPayback(economics.planned.paybackMonths)}</span>, and
+                      LTV:CAC from {numberFormatter.format(economics.blended.ltvToCac)}× to{" "}
+                      <span className="font-semibold">{numberFormatter.format(economics.planned.ltvToCac)}×</span>, at{" "}
+                      {currencyFormatter.format(economics.blended.cac)} and{" "}
+                      {currencyFormatter.format(economics.planned.cac)} per new customer.
                     </p>
+
+                    <OptionTabs
+                      label="Optimise for"
+                      value={objective}
+                      onChange={(value) => setObjective(value as OptimizationObjective)}
+                      options={[
+                        { value: "conversions", label: "Incremental conversions" },
+                        { value: "revenue", label: "Incremental revenue" },
+                      ]}
+                    />
+                    <InputSlider
+                      label="Total budget vs. current"
+                      value={budgetChange}
+                      min={-0.5}
+                      max={0.5}
+                      step={0.05}
+                      format={(v) => `${v >= 0 ? "+" : ""}${Math.round(v * 100)}%`}
+                      onChange={setBudgetChange}
+                    />
+                    <InputSlider
+                      label="Max week-over-week change per channel"
+                      value={maxWeeklyChange}
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      format={(v) => `±${Math.round(v * 100)}%`}
+                      onChange={setMaxWeeklyChange}
+                    />
                   </div>
 
                   <div className="rounded-lg border bg-background/70 p-3">
                     <p className="mb-2 text-[11px] font-medium uppercase tracking-[0.16em] text-muted-foreground">
-                      Budget reallocation (directional)
+                      Budget reallocation (optimised)
                     </p>
                     <Table className="text-xs">
                       <TableHeader>
@@ -1043,21 +1696,45 @@ const Index = () => {
                           <TableHead className="w-[40%]">Channel</TableHead>
                           <TableHead>Before</TableHead>
                           <TableHead>After</TableHead>
+                          <TableHead className="text-right">Change</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {budgetPlan.map((row) => (
-                          <TableRow key={row.channel}>
-                            <TableCell className="font-medium">{row.channel}</TableCell>
-                            <TableCell>{currencyFormatter.format(row.before)}</TableCell>
-                            <TableCell>{currencyFormatter.format(row.after)}</TableCell>
-                          </TableRow>
-                        ))}
+                        {budgetPlan.rows.map((row) => {
+                          const change = row.after / Math.max(row.before, 1) - 1;
+                          return (
+                            <TableRow key={row.channel}>
+                              <TableCell className="font-medium">
+                                <span className="inline-flex items-center gap-2">
+                                  <button
+                                    type="button"
+                                    onClick={() => toggleLocked(row.channel)}
+                                    aria-label={`${row.locked ? "Unlock" : "Lock"} ${row.channel}`}
+                                    className={
+                                      row.locked ? "text-primary" : "text-muted-foreground hover:text-foreground"
+                                    }
+                                  >
+                                    {row.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                                  </button>
+                                  {row.channel}
+                                </span>
+                              </TableCell>
+                              <TableCell>{currencyFormatter.format(row.before)}</TableCell>
+                              <TableCell>{currencyFormatter.format(row.after)}</TableCell>
+                              <TableCell
+                                className={`text-right ${change > 0.005 ? "text-primary" : change < -0.005 ? "text-destructive" : "text-muted-foreground"}`}
+                              >
+                                {change >= 0 ? "+" : ""}
+                                {percentFormatter.format(change)}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
                       </TableBody>
                     </Table>
                     <p className="mt-2 text-[11px] text-muted-foreground">
-                      Totals are normalized to maintain a monthly budget of {currencyFormatter.format(afterSpendTotal)}.
-                      Figures are indicative, not prescriptive.
+                      Allocates {currencyFormatter.format(afterSpendTotal)} / month within each channel&apos;s spend
+                      range. Locked channels keep their current spend. Figures are indicative, not prescriptive.
                     </p>
                   </div>
                 </CardContent>
@@ -1066,6 +1743,63 @@ const Index = () => {
           </div>
         </section>
 
+        {/* Experiments */}
+        <section aria-labelledby="experiments" className="space-y-4">
+          <div className="flex items-baseline justify-between gap-4">
+            <h2 id="experiments">Experiments</h2>
+            <p className="text-xs text-muted-foreground max-w-md text-right">
+              Rehearse a geo holdout before running it: switch a channel off in a few synthetic regions and see whether
+              the analysis can recover its true lift.
+            </p>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-[minmax(0,0.8fr)_minmax(0,1.5fr)]">
+            <Card className="self-start border-border/80 shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-base">Test design</CardTitle>
+                <CardDescription className="text-xs">
+                  National volume is split across {GEO_REGIONS} regions of uneven size that share seasonality but
+                  drift apart.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="text-sm">
+                <ExperimentControls experiment={experiment} channels={channels} onChange={setExperiment} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/80 shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-sm">Geo-lift readout</CardTitle>
+                <CardDescription className="text-xs max-w-2xl">
+                  Weekly conversions in the treated regions against the counterfactual built from the controls.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {result.experiment && (
+                  <GeoLiftPanel
+                    result={result.experiment}
+                    color={channels.find((ch) => ch.name === experiment.channel)?.color ?? "hsl(var(--primary))"}
+                    revenuePerConversion={stageValue(scenario, experiment.channel)}
+                    onCalibrate={calibrateFromExperiment}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="border-border/80 shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-sm">Test planner</CardTitle>
+              <CardDescription className="text-xs max-w-2xl">
+                How many regions to hold out, and for how long, before a geo test can see each channel&apos;s lift.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TestPlannerPanel plans={result.testPlans} channels={channels} onApply={simulateDesign} />
+            </CardContent>
+          </Card>
+        </section>
+
         {/* Architecture overview */}
         <section
           aria-labelledby="architecture-overview"
@@ -1227,78 +1961,14 @@ const Index = () => {
   );
 };
 
-interface InputSliderProps {
-  label: string;
-  value: number;
-  min: number;
-  max: number;
-  step: number;
-  onChange: (value: number) => void;
-}
-
-const InputSlider = ({ label, value, min, max, step, onChange }: InputSliderProps) => {
-  return (
-    <div className="space-y-1 rounded-lg border bg-background/80 p-3">
-      <div className="flex items-center justify-between text-xs">
-        <span className="font-medium text-foreground">{label}</span>
-        <span className="font-mono text-[11px] text-muted-foreground">{currencyFormatter.format(value)}</span>
-      </div>
-      <Slider
-        value={[value]}
-        min={min}
-        max={max}
-        step={step}
-        onValueChange={([v]) => onChange(v)}
-        className="mt-1"
-      />
-      <div className="flex justify-between text-[10px] text-muted-foreground">
-        <span>{currencyFormatter.format(min)}</span>
-        <span>{currencyFormatter.format(max)}</span>
-      </div>
-    </div>
-  );
-};
-
-interface OptionTabsProps<T extends string> {
-  label: string;
-  value: T;
-  onChange: (value: T) => void;
-  options: { value: T; label: string }[];
-}
-
-const OptionTabs = <T extends string>({ label, value, onChange, options }: OptionTabsProps<T>) => {
-  return (
-    <div className="space-y-2">
-      <p className="text-xs font-medium text-muted-foreground">{label}</p>
-      <Tabs value={value} onValueChange={(v) => onChange(v as T)} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 bg-muted/70">
-          {options.map((opt) => (
-            <TabsTrigger key={opt.value} value={opt.value} className="text-xs">
-              {opt.label}
-            </TabsTrigger>
-          ))}
-        </TabsList>
-      </Tabs>
-    </div>
-  );
+const ANNOTATION_COLORS: Record<CalendarAnnotationKind, string> = {
+  holiday: "hsl(var(--destructive))",
+  promo: "hsl(var(--accent))",
+  event: "hsl(var(--primary))",
+  peak_season: "hsl(var(--primary))",
+  low_season: "hsl(var(--muted-foreground))",
 };
 
-interface SummaryMetricProps {
-  label: string;
-  value: string;
-  helper: string;
-}
-
-const SummaryMetric = ({ label, value, helper }: SummaryMetricProps) => (
-  <Card className="border-border/80 bg-background/90 shadow-sm">
-    <CardContent className="pt-4">
-      <p className="text-xs font-medium text-muted-foreground">{label}</p>
-      <p className="mt-1 text-lg font-semibold text-foreground">{value}</p>
-      <p className="mt-1 text-[11px] text-muted-foreground">{helper}</p>
-    </CardContent>
-  </Card>
-);
-
 interface ArchitecturePillProps {
   title: string;
   subtitle: string;